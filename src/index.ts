@@ -1,23 +1,100 @@
 #!/usr/bin/env node
-import { McpServer as Server } from '@modelcontextprotocol/sdk/server/mcp.js'; // Changed import
+import {
+  McpServer as Server, // Changed import
+  ResourceTemplate
+} from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
 import {
   CallToolResult, // Needed for tool handlers
-  GetPromptResult // Needed for prompt handlers
+  GetPromptResult, // Needed for prompt handlers
+  ReadResourceResult, // Needed for resource handlers
+  ErrorCode,
+  McpError,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  isInitializeRequest
 } from '@modelcontextprotocol/sdk/types.js';
+import YAML from 'yaml';
 import { z } from 'zod';
 import axios, { AxiosError } from 'axios';
+import { kMaxLength } from 'buffer';
+import crypto from 'crypto';
 import fs from 'fs';
+import http from 'http';
+import { builtinModules } from 'module';
+import net from 'net';
+import os from 'os';
 import path from 'path';
+import semver from 'semver';
+import zlib from 'zlib';
 
 const encodePackageName = (packageName: string): string => {
-  return encodeURIComponent(packageName);
+  // Registries expect the scope's '@' unescaped (e.g. @scope%2fname)
+  return encodeURIComponent(packageName).replace(/^%40/, '@');
 };
 
+interface NpmVersionDist {
+  tarball: string;
+  shasum?: string;
+  integrity?: string;
+  fileCount?: number;
+  unpackedSize?: number;
+  signatures?: Array<{ keyid: string; sig: string }>;
+  attestations?: {
+    url: string;
+    provenance?: { predicateType: string };
+  };
+}
+
+interface NpmPackageVersionManifest {
+  name: string;
+  version: string;
+  description?: string;
+  license?: string | { type: string; url?: string };
+  dependencies?: {
+    [name: string]: string;
+  };
+  peerDependencies?: {
+    [name: string]: string;
+  };
+  peerDependenciesMeta?: {
+    [name: string]: { optional?: boolean };
+  };
+  optionalDependencies?: {
+    [name: string]: string;
+  };
+  engines?: {
+    [engine: string]: string;
+  };
+  bin?: string | { [command: string]: string };
+  scripts?: { [name: string]: string };
+  gypfile?: boolean;
+  _npmUser?: { name: string; email?: string };
+  maintainers?: Array<{ name: string; email?: string }>;
+  exports?: unknown;
+  main?: string;
+  module?: string;
+  types?: string;
+  typings?: string;
+  typesVersions?: unknown;
+  browser?: string | false | { [file: string]: string | false };
+  type?: string;
+  deprecated?: string;
+  readme?: string;
+  readmeFilename?: string;
+  dist: NpmVersionDist;
+}
+
 interface NpmRegistryPackageInfo {
   name: string;
   'dist-tags': {
     latest: string;
+    [tag: string]: string;
+  };
+  versions?: {
+    [version: string]: NpmPackageVersionManifest;
   };
   description?: string;
   time?: {
@@ -28,11 +105,16 @@ interface NpmRegistryPackageInfo {
   repository?: {
     type: string;
     url: string;
+    directory?: string;
   };
   maintainers?: Array<{ name: string; email: string }>;
   keywords?: string[];
+  readme?: string;
+  readmeFilename?: string;
 }
 
+type CacheStatus = 'hit' | 'miss' | 'revalidated' | 'stale';
+
 interface McpSummaryData {
   name: string;
   latestVersion: string;
@@ -42,6 +124,7 @@ interface McpSummaryData {
   homepage?: string;
   repository?: string;
   source: string;
+  cache?: CacheStatus;
 }
 
 interface MaintainerInfo {
@@ -49,10 +132,11 @@ interface MaintainerInfo {
   email: string;
 }
 
-interface McpDetailsData extends Omit<McpSummaryData, 'source'> {
+interface McpDetailsData extends Omit<McpSummaryData, 'source' | 'cache'> {
   maintainers?: MaintainerInfo[];
   keywords?: string[];
   source: string;
+  cache?: CacheStatus;
 }
 
 interface McpVersionsData {
@@ -60,6 +144,30 @@ interface McpVersionsData {
     [version: string]: string;
   };
   source: string;
+  cache?: CacheStatus;
+}
+
+interface McpVersionManifestData {
+  name: string;
+  requestedVersion: string;
+  version: string;
+  resolvedBy: 'exact' | 'dist-tag' | 'range';
+  publishDate?: string;
+  deprecated?: string;
+  dependencies?: { [name: string]: string };
+  peerDependencies?: { [name: string]: string };
+  peerDependenciesMeta?: { [name: string]: { optional?: boolean } };
+  optionalDependencies?: { [name: string]: string };
+  engines?: { [engine: string]: string };
+  bin?: { [command: string]: string };
+  type?: string;
+  main?: string;
+  module?: string;
+  types?: string;
+  exports?: unknown;
+  dist: NpmVersionDist;
+  source: string;
+  cache?: CacheStatus;
 }
 
 interface NpmDownloadsApiResponse {
@@ -77,6 +185,7 @@ interface McpDownloadsData {
   };
   package: string;
   source: string;
+  cache?: CacheStatus;
 }
 
 interface NpmAuditVulnerabilityEntry {
@@ -143,766 +252,9237 @@ interface McpSimulateAuditFixResult {
   rawSimulationOutput?: any;
 }
 
-const NPM_REGISTRY_BASE_URL = 'https://registry.npmjs.org';
-const NPM_DOWNLOADS_API_BASE_URL = 'https://api.npmjs.org/downloads/point';
-
-class NpmApiError extends Error {
-  constructor(
-    message: string,
-    public statusCode?: number,
-    public code?: string
-  ) {
-    super(message);
-    this.name = 'NpmApiError';
-  }
+interface NpmSearchApiResponse {
+  objects: Array<{
+    package: {
+      name: string;
+      version: string;
+      description?: string;
+      keywords?: string[];
+      date?: string;
+      license?: string;
+      links?: {
+        npm?: string;
+        homepage?: string;
+        repository?: string;
+        bugs?: string;
+      };
+    };
+    score?: {
+      final?: number;
+      detail?: {
+        quality?: number;
+        popularity?: number;
+        maintenance?: number;
+      };
+    };
+    searchScore?: number;
+  }>;
+  total: number;
 }
 
-const fetchPackageData = async (
-  encodedPackageName: string
-): Promise<NpmRegistryPackageInfo> => {
-  const apiUrl = `${NPM_REGISTRY_BASE_URL}/${encodedPackageName}`;
-  console.error(
-    `[${new Date().toISOString()}] Fetching package data from: ${apiUrl}`
-  );
-  try {
-    const response = await axios.get<NpmRegistryPackageInfo>(apiUrl);
-    return response.data;
-  } catch (error) {
-    const axiosError = error as AxiosError;
-    if (axiosError.response) {
-      if (axiosError.response.status === 404) {
-        throw new NpmApiError(
-          `Package '${decodeURIComponent(
-            encodedPackageName
-          )}' not found on npmjs.`,
-          404,
-          'NPM_PKG_NOT_FOUND'
-        );
-      }
-      throw new NpmApiError(
-        `Failed to fetch package data from NPM Registry. Status: ${axiosError.response.status}`,
-        axiosError.response.status,
-        'NPM_API_ERROR'
-      );
-    } else if (axiosError.request) {
-      throw new NpmApiError(
-        'No response received from NPM Registry while fetching package data.',
-        undefined,
-        'NPM_API_NO_RESPONSE'
-      );
-    } else {
-      throw new NpmApiError(
-        `Error fetching package data: ${axiosError.message}`,
-        undefined,
-        'NPM_API_REQUEST_SETUP_ERROR'
-      );
-    }
-  }
-};
-
-const transformDataForSummary = (
-  rawData: NpmRegistryPackageInfo,
-  sourceUrl: string
-): McpSummaryData => {
-  const latestVersion = rawData['dist-tags']?.latest;
-  let publishDateLatest: string | undefined;
-  if (latestVersion && rawData.time && rawData.time[latestVersion]) {
-    publishDateLatest = rawData.time[latestVersion];
-  }
-  let licenseString: string | undefined;
-  if (typeof rawData.license === 'string') {
-    licenseString = rawData.license;
-  } else if (
-    rawData.license &&
-    typeof rawData.license === 'object' &&
-    rawData.license.type
-  ) {
-    licenseString = rawData.license.type;
-  }
-  let repositoryUrl: string | undefined;
-  if (rawData.repository && rawData.repository.url) {
-    repositoryUrl = rawData.repository.url
-      .replace(/^git\+/, '')
-      .replace(/\.git$/, '');
-  }
-  return {
-    name: rawData.name,
-    latestVersion: latestVersion || 'N/A',
-    description: rawData.description,
-    publishDateLatest: publishDateLatest,
-    license: licenseString,
-    homepage: rawData.homepage,
-    repository: repositoryUrl,
-    source: sourceUrl
+interface McpSearchResultEntry extends McpSummaryData {
+  keywords?: string[];
+  scores: {
+    final?: number;
+    quality?: number;
+    popularity?: number;
+    maintenance?: number;
+    searchScore?: number;
   };
-};
+}
 
-const transformDataForVersions = (
-  rawData: NpmRegistryPackageInfo,
-  sourceUrl: string
-): McpVersionsData => {
-  const versionsMap: { [version: string]: string } = {};
-  if (rawData.time) {
-    for (const key in rawData.time) {
-      if (
-        Object.prototype.hasOwnProperty.call(rawData.time, key) &&
-        /^\d+\.\d+\.\d+([-.].*)?$/.test(key)
-      ) {
-        versionsMap[key] = rawData.time[key];
-      }
-    }
-  }
-  return { versions: versionsMap, source: sourceUrl };
-};
+interface McpSearchResultsData {
+  query: string;
+  total: number;
+  from: number;
+  size: number;
+  results: McpSearchResultEntry[];
+  source: string;
+  cache?: CacheStatus;
+}
 
-const transformDataForDetails = (
-  rawData: NpmRegistryPackageInfo,
-  sourceUrl: string
-): McpDetailsData => {
-  const summaryData = transformDataForSummary(rawData, sourceUrl);
-  const maintainers =
-    rawData.maintainers?.map(m => ({ name: m.name, email: m.email })) || [];
-  const keywords = rawData.keywords || [];
-  return {
-    ...summaryData,
-    maintainers: maintainers.length > 0 ? maintainers : undefined,
-    keywords: keywords.length > 0 ? keywords : undefined
-  };
-};
+interface McpDependencyTreeNode {
+  name: string;
+  range: string;
+  version?: string;
+  // Already expanded elsewhere in the tree; its dependencies are listed there
+  duplicate?: boolean;
+  cycle?: boolean;
+  depthLimitReached?: boolean;
+  error?: string;
+  dependencies?: McpDependencyTreeNode[];
+}
 
-const fetchSinglePeriodDownloads = async (
-  period: string,
-  encodedPackageName: string
-): Promise<number | null> => {
-  const apiUrl = `${NPM_DOWNLOADS_API_BASE_URL}/${period}/${encodedPackageName}`;
-  console.error(
-    `[${new Date().toISOString()}] Fetching downloads for ${period} from: ${apiUrl}`
-  );
-  try {
-    const response = await axios.get<NpmDownloadsApiResponse>(apiUrl);
-    return response.data.downloads;
-  } catch (error) {
-    const axiosError = error as AxiosError;
-    console.error(
-      `[${new Date().toISOString()}] Failed to fetch downloads for period ${period}, package ${decodeURIComponent(
-        encodedPackageName
-      )}: ${axiosError.message}`
-    );
-    return null;
-  }
-};
+interface McpFlatDependencyEntry {
+  name: string;
+  version: string;
+  depth: number;
+  requiredBy: string[];
+}
 
-const fetchPackageDownloads = async (
-  encodedPackageName: string,
-  requestedPeriod?: string
-): Promise<McpDownloadsData> => {
-  const periodsToFetch = requestedPeriod
-    ? [requestedPeriod]
-    : ['last-day', 'last-week', 'last-month'];
-  const downloadResults: { [period: string]: number | null } = {};
-  const downloadPromises = periodsToFetch.map(period =>
-    fetchSinglePeriodDownloads(period, encodedPackageName).then(downloads => ({
-      period,
-      downloads
-    }))
-  );
-  const results = await Promise.allSettled(downloadPromises);
-  results.forEach(result => {
-    if (result.status === 'fulfilled' && result.value.downloads !== null) {
-      downloadResults[result.value.period] = result.value.downloads;
-    } else if (
-      result.status === 'fulfilled' &&
-      result.value.downloads === null
-    ) {
-      downloadResults[result.value.period] = null;
-    }
-  });
-  const finalDownloads: { [key: string]: number | undefined } = {};
-  if (requestedPeriod) {
-    if (
-      downloadResults[requestedPeriod] !== null &&
-      downloadResults[requestedPeriod] !== undefined
-    ) {
-      finalDownloads[requestedPeriod] = downloadResults[
-        requestedPeriod
-      ] as number;
-    }
-  } else {
-    if (
-      downloadResults['last-day'] !== null &&
-      downloadResults['last-day'] !== undefined
-    )
-      finalDownloads['last-day'] = downloadResults['last-day'] as number;
-    if (
-      downloadResults['last-week'] !== null &&
-      downloadResults['last-week'] !== undefined
-    )
-      finalDownloads['last-week'] = downloadResults['last-week'] as number;
-    if (
-      downloadResults['last-month'] !== null &&
-      downloadResults['last-month'] !== undefined
-    )
-      finalDownloads['last-month'] = downloadResults['last-month'] as number;
-  }
-  return {
-    downloads: finalDownloads,
-    package: decodeURIComponent(encodedPackageName),
-    source: NPM_DOWNLOADS_API_BASE_URL
-  };
-};
+interface McpDependencyTreeData {
+  name: string;
+  version: string;
+  maxDepth: number;
+  totalUniquePackages: number;
+  duplicates: number;
+  cycles: number;
+  truncated: boolean;
+  errors: number;
+  tree?: McpDependencyTreeNode;
+  packages?: McpFlatDependencyEntry[];
+  source: string;
+}
 
-// --- MCP Server Implementation ---
+type LockfileFormat = 'npm' | 'yarn-classic' | 'yarn-berry' | 'pnpm';
 
-const server = new Server(
-  {
-    name: 'npmjs-mcp-server',
-    version: '1.1.5' // Refactored to use server.tool() and server.prompt()
-  },
-  {
-    capabilities: {
-      // Tools and Prompts will be defined using server.tool() and server.prompt()
-      resources: {},
-      tools: {},
-      prompts: {}
-    }
-  }
-);
+type ResolvedSourceKind = 'registry' | 'git' | 'tarball' | 'file' | 'link';
 
-// --- Zod Schemas for Tool Arguments ---
-const PackageNameArgsSchema = z.object({
-  packageName: z.string().min(1, 'Package name cannot be empty')
-});
-type PackageNameArgs = z.infer<typeof PackageNameArgsSchema>;
+interface LockfilePackage {
+  // Unique within a lockfile: node_modules path (npm), descriptor line (yarn) or package key (pnpm)
+  id: string;
+  name: string;
+  version: string;
+  resolved?: string;
+  integrity?: string;
+  dev?: boolean;
+  optional?: boolean;
+  // Workspace members, symlinked and bundled packages are not fetched from anywhere
+  local?: boolean;
+  // Only npm lockfiles (v2+) and installed trees record the license
+  license?: string;
+  dependencies: string[];
+}
 
-const PackageDownloadsArgsSchema = z.object({
-  packageName: z.string().min(1, 'Package name cannot be empty'),
-  period: z.enum(['last-day', 'last-week', 'last-month']).optional()
-});
-type PackageDownloadsArgs = z.infer<typeof PackageDownloadsArgsSchema>;
+interface LockfileDirectDependency {
+  name: string;
+  range: string;
+  type: 'prod' | 'dev' | 'optional';
+  id?: string;
+}
 
-const NpmAuditArgsSchema = z.object({
-  projectPath: z.string().min(1, 'Project path cannot be empty')
-});
-type NpmAuditArgs = z.infer<typeof NpmAuditArgsSchema>;
+interface ParsedLockfile {
+  format: LockfileFormat;
+  lockfilePath: string;
+  lockfileVersion?: string;
+  directDependencies: LockfileDirectDependency[];
+  packages: Map<string, LockfilePackage>;
+}
 
-const SimulateNpmAuditFixArgsSchema = z.object({
-  projectPath: z.string().min(1, 'Project path cannot be empty')
-});
-type SimulateNpmAuditFixArgs = z.infer<typeof SimulateNpmAuditFixArgsSchema>;
+interface ProjectPackageManifest {
+  name?: string;
+  version?: string;
+  dependencies?: { [name: string]: string };
+  devDependencies?: { [name: string]: string };
+  optionalDependencies?: { [name: string]: string };
+  peerDependencies?: { [name: string]: string };
+  engines?: { [engine: string]: string };
+}
 
-// --- Zod Schemas for Prompt Arguments ---
-// Reusing PackageNameArgsSchema for prompts needing only packageName
-// Reusing NpmAuditArgsSchema for prompts needing only projectPath
-// Reusing SimulateNpmAuditFixArgsSchema for prompts needing only projectPath
+interface McpLockfileAnalysisData {
+  lockfile: string;
+  format: LockfileFormat;
+  lockfileVersion?: string;
+  summary: {
+    totalPackages: number;
+    directDependencies: number;
+    transitiveDependencies: number;
+    duplicatedPackages: number;
+    nonRegistryDependencies: number;
+    missingIntegrity: number;
+  };
+  directDependencies: Array<{
+    name: string;
+    range: string;
+    type: LockfileDirectDependency['type'];
+    version?: string;
+  }>;
+  duplicates: Array<{ name: string; versions: string[] }>;
+  nonRegistryDependencies: Array<{
+    name: string;
+    version: string;
+    kind: ResolvedSourceKind;
+    resolved?: string;
+  }>;
+  missingIntegrity: Array<{ name: string; version: string; resolved?: string }>;
+}
 
-const GetVersionDateArgsSchema = z.object({
-  packageName: z.string().min(1, 'Package name cannot be empty'),
-  version: z.string().min(1, 'Version cannot be empty') // Basic validation, could be stricter regex
-});
-type GetVersionDateArgs = z.infer<typeof GetVersionDateArgsSchema>;
+type VersionBump = 'major' | 'minor' | 'patch' | 'prerelease' | 'none';
 
-const GetDownloadsArgsSchema = z.object({
-  packageName: z.string().min(1, 'Package name cannot be empty'),
-  timePeriod: z.enum(['last-day', 'last-week', 'last-month'])
-});
+interface McpOutdatedDependencyEntry {
+  name: string;
+  type: LockfileDirectDependency['type'];
+  range: string;
+  installed?: string;
+  wanted?: string;
+  latest?: string;
+  updateType?: VersionBump;
+  latestPublishedAt?: string;
+  latestAgeDays?: number;
+  outdated: boolean;
+  skipped?: string;
+  error?: string;
+}
+
+interface McpOutdatedReportData {
+  projectPath: string;
+  lockfile?: string;
+  checkedAt: string;
+  summary: {
+    total: number;
+    outdated: number;
+    major: number;
+    minor: number;
+    patch: number;
+    errors: number;
+  };
+  dependencies: McpOutdatedDependencyEntry[];
+}
+
+interface NpmBulkAdvisory {
+  id: number;
+  url: string;
+  title: string;
+  severity: string;
+  vulnerable_versions: string;
+  cwe?: string[];
+  cves?: string[];
+  cvss?: {
+    score: number;
+    vectorString: string | null;
+  };
+}
+
+interface NpmBulkAdvisoryResponse {
+  [packageName: string]: NpmBulkAdvisory[];
+}
+
+interface NpmAdvisoryEntry extends NpmAuditVulnerabilityEntry {
+  advisoryId: number;
+  title: string;
+  ghsaId?: string;
+  cveIds?: string[];
+  cwe?: string[];
+  cvssScore?: number;
+  cvssVector?: string;
+  vulnerableVersions: string;
+  patchedVersions?: string;
+  firstPatchedVersion?: string;
+}
+
+interface McpPackageAuditResult {
+  auditRunDate: string;
+  packagesAudited: number;
+  lockfile?: string;
+  summary: NpmAuditOverallSummary;
+  vulnerabilities: NpmAdvisoryEntry[];
+  source: string;
+}
+
+interface NpmDownloadsRangeApiResponse {
+  start: string;
+  end: string;
+  package: string;
+  downloads: Array<{ day: string; downloads: number }>;
+}
+
+type DownloadHistoryGrouping = 'day' | 'week' | 'month';
+
+interface McpDownloadHistoryPeriod {
+  period: string;
+  start: string;
+  end: string;
+  downloads: number;
+  movingAverage?: number;
+  // The requested range cuts this week/month short, so it is left out of growth figures
+  partial?: boolean;
+}
+
+interface McpDownloadHistoryData {
+  package: string;
+  start: string;
+  end: string;
+  groupBy: DownloadHistoryGrouping;
+  totalDownloads: number;
+  series: McpDownloadHistoryPeriod[];
+  statistics: {
+    averagePerPeriod: number;
+    growthRate?: number;
+    recentGrowthRate?: number;
+    trend: 'growing' | 'declining' | 'stable' | 'insufficient-data';
+    peakPeriods: Array<{ period: string; downloads: number }>;
+  };
+  source: string;
+  cache?: CacheStatus;
+}
+
+interface ReleaseStatistics {
+  totalReleases: number;
+  releasesLastYear: number;
+  firstReleaseDate?: string;
+  lastReleaseDate?: string;
+  averageDaysBetweenReleases?: number;
+}
+
+interface McpPackageComparisonRow {
+  name: string;
+  latestVersion?: string;
+  license?: string;
+  lastPublishDate?: string;
+  releasesLastYear?: number;
+  averageDaysBetweenReleases?: number;
+  maintainerCount?: number;
+  dependencyCount?: number;
+  unpackedSize?: number;
+  weeklyDownloads?: number;
+  openAdvisories?: number;
+  error?: string;
+}
+
+interface McpPackageComparisonData {
+  comparedAt: string;
+  packages: McpPackageComparisonRow[];
+  notes: string[];
+}
+
+interface McpBulkDownloadsEntry {
+  downloads: {
+    'last-day'?: number;
+    'last-week'?: number;
+    'last-month'?: number;
+  };
+  errors?: {
+    [period: string]: string;
+  };
+}
+
+interface McpBulkDownloadsData {
+  packages: {
+    [packageName: string]: McpBulkDownloadsEntry;
+  };
+  source: string;
+  cache?: CacheStatus;
+}
+
+interface McpChangelogEntry {
+  version: string;
+  title: string;
+  body: string;
+}
+
+interface McpChangelogData {
+  fromVersion: string;
+  toVersion: string;
+  source?: 'tarball' | 'repository' | 'github-releases';
+  location?: string;
+  entries: McpChangelogEntry[];
+  truncated: boolean;
+  message?: string;
+}
+
+interface McpReadmeData {
+  name: string;
+  version: string;
+  readmeSource?: 'registry' | 'tarball';
+  readmeFilename?: string;
+  sections: string[];
+  section?: string;
+  readme?: string;
+  readmeLength?: number;
+  truncated: boolean;
+  changelog?: McpChangelogData;
+  source: string;
+  cache?: CacheStatus;
+}
+
+interface McpTarballTreeNode {
+  name: string;
+  type: 'file' | 'directory';
+  size: number;
+  fileCount?: number;
+  children?: McpTarballTreeNode[];
+}
+
+interface McpTarballFileContent {
+  path: string;
+  size: number;
+  encoding: 'utf-8' | 'base64';
+  content: string;
+  truncated: boolean;
+}
+
+interface McpTarballInspectionData {
+  name: string;
+  version: string;
+  tarball: string;
+  tarballSize: number;
+  unpackedSize: number;
+  fileCount: number;
+  integrity: TarballIntegrity;
+  filesByExtension: { [extension: string]: { count: number; size: number } };
+  files?: Array<{ path: string; size: number }>;
+  tree?: McpTarballTreeNode;
+  fileContents?: McpTarballFileContent[];
+  missingFiles?: string[];
+  rejectedEntries?: string[];
+  source: string;
+  cache?: CacheStatus;
+}
+
+type ModuleFormat = 'esm' | 'cjs' | 'dual' | 'unknown';
+
+interface McpTypesSupport {
+  bundled: boolean;
+  entry?: string;
+  // How the bundled types were found: 'types', 'typings', 'exports' or 'typesVersions'
+  declaredBy?: string;
+  definitelyTyped?: {
+    name: string;
+    latestVersion?: string;
+    matchingVersion?: string;
+    deprecated?: string;
+  };
+}
+
+interface McpCompatibilityData {
+  name: string;
+  version: string;
+  packageType: 'module' | 'commonjs';
+  moduleFormat: ModuleFormat;
+  nativeEsm: boolean;
+  commonJs: boolean;
+  // ESM entry only bundlers understand (the non-standard "module" field)
+  bundlerEsmEntry?: string;
+  entryPoints: {
+    main?: string;
+    module?: string;
+    exports?: string[];
+  };
+  exportsConditions: string[];
+  types: McpTypesSupport;
+  engines: {
+    node?: string;
+    minimumNodeVersion?: string;
+    other?: { [engine: string]: string };
+  };
+  browser: {
+    browserField: boolean;
+    browserCondition: boolean;
+  };
+  edgeConditions: string[];
+  source: string;
+  cache?: CacheStatus;
+}
+
+type LicenseStatus = 'allowed' | 'violation' | 'unknown';
+
+interface McpLicenseEntry {
+  name: string;
+  version: string;
+  license?: string;
+  licenseSource?: 'lockfile' | 'installed' | 'registry';
+  status: LicenseStatus;
+  reason?: string;
+  // From the project down to this package, as name@version
+  path: string[];
+}
+
+interface McpLicenseReportData {
+  projectPath: string;
+  lockfile?: string;
+  dependencySource: 'lockfile' | 'node_modules';
+  policy: { allow: string[]; deny: string[] };
+  packagesScanned: number;
+  licenses: { [expression: string]: number };
+  summary: { [status in LicenseStatus]: number };
+  violations: McpLicenseEntry[];
+  unknown: McpLicenseEntry[];
+  packages?: McpLicenseEntry[];
+}
+
+type HealthFactorName =
+  | 'recency'
+  | 'releaseCadence'
+  | 'maintainers'
+  | 'deprecation'
+  | 'dependencies'
+  | 'popularity'
+  | 'downloadTrend';
+
+interface McpHealthFactor {
+  name: HealthFactorName;
+  // 0 (worst) to 1 (best)
+  score: number;
+  weight: number;
+  // Points this factor adds to the overall 0-100 score
+  contribution: number;
+  detail: string;
+}
+
+interface McpPackageHealthData {
+  name: string;
+  latestVersion: string;
+  score: number;
+  rating: 'healthy' | 'fair' | 'poor';
+  factors: McpHealthFactor[];
+  // Factors that could not be measured and were left out of the score
+  unavailableFactors: HealthFactorName[];
+  warnings: string[];
+  weights: { [factor in HealthFactorName]: number };
+  source: string;
+  cache?: CacheStatus;
+}
+
+type SupplyChainSeverity = 'info' | 'low' | 'medium' | 'high';
+
+interface McpSupplyChainSignal {
+  type:
+    | 'install-scripts'
+    | 'native-build'
+    | 'new-publisher'
+    | 'publisher-change'
+    | 'maintainer-change'
+    | 'provenance-missing'
+    | 'provenance-dropped'
+    | 'signature-missing'
+    | 'signature-invalid'
+    | 'fast-republish'
+    | 'size-jump'
+    | 'new-dependencies-in-patch';
+  severity: SupplyChainSeverity;
+  message: string;
+  evidence: { [key: string]: unknown };
+}
+
+interface McpSupplyChainRiskData {
+  name: string;
+  version: string;
+  previousVersion?: string;
+  publishedAt?: string;
+  publisher?: string;
+  provenance: {
+    present: boolean;
+    predicateType?: string;
+    sourceRepository?: string;
+    workflow?: string;
+    error?: string;
+  };
+  signatures: {
+    present: boolean;
+    verified: boolean;
+    keyId?: string;
+    error?: string;
+  };
+  riskLevel: 'none' | SupplyChainSeverity;
+  signals: McpSupplyChainSignal[];
+  source: string;
+  cache?: CacheStatus;
+}
+
+interface McpMapDiff {
+  added?: { [key: string]: string };
+  removed?: { [key: string]: string };
+  changed?: { [key: string]: { from: string; to: string } };
+}
+
+interface McpFileDiff {
+  path: string;
+  diff?: string;
+  truncated?: boolean;
+  skipped?: string;
+}
+
+interface McpVersionDiffData {
+  name: string;
+  fromVersion: string;
+  toVersion: string;
+  manifest: {
+    dependencies?: McpMapDiff;
+    peerDependencies?: McpMapDiff;
+    optionalDependencies?: McpMapDiff;
+    devDependencies?: McpMapDiff;
+    engines?: McpMapDiff;
+    scripts?: McpMapDiff;
+    bin?: McpMapDiff;
+    license?: { from?: string; to?: string };
+    fields?: { [field: string]: { from?: string; to?: string } };
+    exports?: { added: string[]; removed: string[] };
+  };
+  files?: {
+    added: Array<{ path: string; size: number }>;
+    removed: Array<{ path: string; size: number }>;
+    changed: Array<{ path: string; sizeBefore: number; sizeAfter: number }>;
+    unchanged: number;
+    unpackedSizeBefore: number;
+    unpackedSizeAfter: number;
+  };
+  diffs?: McpFileDiff[];
+  source: string;
+  cache?: CacheStatus;
+}
+
+interface McpUpgradeAdvisory {
+  advisoryId: number;
+  ghsaId?: string;
+  severity: string;
+  title: string;
+}
+
+interface McpUpgradeChange {
+  name: string;
+  type: LockfileDirectDependency['type'];
+  range: string;
+  newRange: string;
+  from: string;
+  to: string;
+  bump: VersionBump;
+  reasons?: string[];
+  advisoriesFixed: McpUpgradeAdvisory[];
+  deprecationsRemoved: string[];
+  enginesChange?: McpMapDiff;
+  peerDependencyChanges?: McpMapDiff;
+  peerConflicts?: string[];
+}
+
+interface McpUpgradePlanData {
+  projectPath: string;
+  lockfile?: string;
+  plannedAt: string;
+  summary: {
+    total: number;
+    safe: number;
+    risky: number;
+    upToDate: number;
+    skipped: number;
+    advisoriesFixed: number;
+    deprecationsRemoved: number;
+  };
+  safe: McpUpgradeChange[];
+  risky: McpUpgradeChange[];
+  skipped: Array<{ name: string; reason: string }>;
+  advisoryError?: string;
+  packageJsonPatch?: string;
+  packageJson: string;
+}
+
+type PeerProblemKind = 'unmet' | 'conflict' | 'optional-missing';
+
+interface McpPeerProblem {
+  kind: PeerProblemKind;
+  package: string;
+  peer: string;
+  range: string;
+  provided?: string;
+  path: string[];
+  // Highest release of the dependent whose peer range accepts the provided version
+  compatibleDependentVersion?: string;
+}
+
+interface McpPeerResolution {
+  peer: string;
+  constraints: Array<{ requiredBy: string; range: string }>;
+  highestSatisfying?: string;
+}
+
+interface McpPeerReportData {
+  projectPath: string;
+  lockfile?: string;
+  checkedAt: string;
+  additions: Array<{ name: string; range: string; version: string }>;
+  summary: {
+    packagesChecked: number;
+    unmet: number;
+    conflicts: number;
+    optionalMissing: number;
+    errors: number;
+  };
+  problems: McpPeerProblem[];
+  resolutions: McpPeerResolution[];
+  errors?: Array<{ package: string; error: string }>;
+}
+
+interface McpDeprecatedEntry {
+  name: string;
+  version: string;
+  message: string;
+  direct: boolean;
+  path: string[];
+  // Other installed copies of the package are counted, not listed
+  occurrences: number;
+  suggestedReplacement?: string;
+  nonDeprecatedVersion?: string;
+}
+
+interface McpDeprecationReportData {
+  projectPath: string;
+  lockfile?: string;
+  checkedAt: string;
+  summary: {
+    packagesChecked: number;
+    deprecated: number;
+    direct: number;
+    errors: number;
+  };
+  deprecated: McpDeprecatedEntry[];
+  errors?: Array<{ package: string; error: string }>;
+}
+
+interface McpBundleContributor {
+  name: string;
+  version: string;
+  bundleBytes: number;
+  bundleShare: number;
+  modules: number;
+  installSize: number;
+}
+
+interface McpBundleSizeData {
+  name: string;
+  version: string;
+  entryPoint?: {
+    path: string;
+    resolvedBy: 'exports' | 'module' | 'browser' | 'main' | 'default';
+  };
+  entry?: { raw: number; gzip: number };
+  bundle: {
+    raw: number;
+    gzip: number;
+    modules: number;
+    packages: number;
+  };
+  install: {
+    size: number;
+    files: number;
+    packages: number;
+  };
+  topContributors: McpBundleContributor[];
+  builtinModules?: string[];
+  unresolved?: string[];
+  truncated: boolean;
+  notes: string[];
+  source: string;
+}
+
+interface McpPackageListData {
+  kind: 'scope' | 'maintainer';
+  owner: string;
+  // org/user: the registry's access endpoints (complete); search: the search index (public packages only)
+  listedBy: 'org' | 'user' | 'search';
+  total: number;
+  from: number;
+  size: number;
+  packages: McpSummaryData[];
+  errors?: Array<{ package: string; error: string }>;
+  source: string;
+  cache?: CacheStatus;
+}
+
+const DEFAULT_NPM_REGISTRY_BASE_URL = 'https://registry.npmjs.org';
+const DEFAULT_NPM_DOWNLOADS_API_BASE_URL =
+  'https://api.npmjs.org/downloads/point';
+
+interface NpmRegistryConfig {
+  registry: string;
+  scopedRegistries: {
+    [scope: string]: string;
+  };
+  // Keyed by "nerf dart" (//host/path/), the same way npm keys credentials in .npmrc
+  authTokens: {
+    [nerfDart: string]: string;
+  };
+  basicAuth: {
+    [nerfDart: string]: string;
+  };
+  downloadsApiBaseUrl: string;
+}
+
+const normalizeRegistryUrl = (url: string): string => {
+  return url.trim().replace(/\/+$/, '');
+};
+
+const toNerfDart = (url: string): string => {
+  const parsed = new URL(url);
+  const pathname = parsed.pathname.endsWith('/')
+    ? parsed.pathname
+    : `${parsed.pathname}/`;
+  return `//${parsed.host}${pathname}`;
+};
+
+const parseNpmrc = (contents: string): { [key: string]: string } => {
+  const entries: { [key: string]: string } = {};
+  for (const rawLine of contents.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#') || line.startsWith(';')) {
+      continue;
+    }
+    const separatorIndex = line.indexOf('=');
+    if (separatorIndex === -1) {
+      continue;
+    }
+    const key = line.substring(0, separatorIndex).trim();
+    let value = line.substring(separatorIndex + 1).trim();
+    if (/^(['"]).*\1$/.test(value)) {
+      value = value.substring(1, value.length - 1);
+    }
+    // npm expands ${VAR} references, which is how tokens are usually kept out of .npmrc
+    value = value.replace(
+      /\$\{([^}]+)\}/g,
+      (_match, name: string) => process.env[name] ?? ''
+    );
+    entries[key] = value;
+  }
+  return entries;
+};
+
+const readNpmrcFile = (filePath: string): { [key: string]: string } => {
+  if (!fs.existsSync(filePath)) {
+    return {};
+  }
+  try {
+    return parseNpmrc(fs.readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    console.error(
+      `[${new Date().toISOString()}] Failed to read npm config file ${filePath}: ${
+        (error as Error).message
+      }`
+    );
+    return {};
+  }
+};
+
+const loadRegistryConfig = (): NpmRegistryConfig => {
+  const userConfigPath =
+    process.env.NPM_CONFIG_USERCONFIG ||
+    process.env.npm_config_userconfig ||
+    path.join(os.homedir(), '.npmrc');
+  const projectConfigPath = path.join(
+    process.env.NPMJS_MCP_PROJECT_DIR || process.cwd(),
+    '.npmrc'
+  );
+  // Same precedence as npm itself: environment > project > user
+  const entries: { [key: string]: string } = {
+    ...readNpmrcFile(userConfigPath),
+    ...readNpmrcFile(projectConfigPath)
+  };
+  for (const [name, value] of Object.entries(process.env)) {
+    const match = /^npm_config_(.+)$/i.exec(name);
+    if (match && value !== undefined) {
+      const key = match[1].startsWith('//') ? match[1] : match[1].toLowerCase();
+      entries[key] = value;
+    }
+  }
+
+  const registry = normalizeRegistryUrl(
+    process.env.NPM_REGISTRY_BASE_URL ||
+      entries.registry ||
+      DEFAULT_NPM_REGISTRY_BASE_URL
+  );
+  const config: NpmRegistryConfig = {
+    registry,
+    scopedRegistries: {},
+    authTokens: {},
+    basicAuth: {},
+    downloadsApiBaseUrl: normalizeRegistryUrl(
+      process.env.NPM_DOWNLOADS_API_BASE_URL ||
+        DEFAULT_NPM_DOWNLOADS_API_BASE_URL
+    )
+  };
+  for (const [key, value] of Object.entries(entries)) {
+    if (!value) {
+      continue;
+    }
+    const scopeMatch = /^(@[^:]+):registry$/.exec(key);
+    const tokenMatch = /^(\/\/.+):_authToken$/.exec(key);
+    const basicAuthMatch = /^(\/\/.+):_auth$/.exec(key);
+    if (scopeMatch) {
+      config.scopedRegistries[scopeMatch[1].toLowerCase()] =
+        normalizeRegistryUrl(value);
+    } else if (tokenMatch) {
+      config.authTokens[tokenMatch[1]] = value;
+    } else if (basicAuthMatch) {
+      config.basicAuth[basicAuthMatch[1]] = value;
+    } else if (key === '_authToken' || key === '_auth') {
+      // Legacy unscoped credentials apply to the default registry only
+      let nerfDart: string;
+      try {
+        nerfDart = toNerfDart(registry);
+      } catch (error) {
+        console.error(
+          `[${new Date().toISOString()}] Ignoring legacy ${key}: invalid registry URL '${registry}' (${
+            (error as Error).message
+          })`
+        );
+        continue;
+      }
+      if (key === '_authToken') {
+        config.authTokens[nerfDart] = value;
+      } else {
+        config.basicAuth[nerfDart] = value;
+      }
+    }
+  }
+  return config;
+};
+
+const registryConfig = loadRegistryConfig();
+
+const getRegistryUrlForPackage = (packageName: string): string => {
+  if (packageName.startsWith('@')) {
+    const scope = packageName.split('/')[0].toLowerCase();
+    if (registryConfig.scopedRegistries[scope]) {
+      return registryConfig.scopedRegistries[scope];
+    }
+  }
+  return registryConfig.registry;
+};
+
+const getPackageSourceUrl = (packageName: string): string => {
+  return `${getRegistryUrlForPackage(packageName)}/${encodePackageName(
+    packageName
+  )}`;
+};
+
+const findCredentialForUrl = (
+  credentials: { [nerfDart: string]: string },
+  url: string
+): string | undefined => {
+  const nerfDart = toNerfDart(url);
+  let bestMatch: string | undefined;
+  for (const key of Object.keys(credentials)) {
+    const normalizedKey = key.endsWith('/') ? key : `${key}/`;
+    if (
+      nerfDart.startsWith(normalizedKey) &&
+      (!bestMatch || normalizedKey.length > bestMatch.length)
+    ) {
+      bestMatch = key;
+    }
+  }
+  return bestMatch ? credentials[bestMatch] : undefined;
+};
+
+// Credentials only ever travel in request headers; they must never end up in tool output or logs.
+const getRegistryRequestHeaders = (
+  url: string
+): { [header: string]: string } => {
+  const token = findCredentialForUrl(registryConfig.authTokens, url);
+  if (token) {
+    return { Authorization: `Bearer ${token}` };
+  }
+  const basicAuth = findCredentialForUrl(registryConfig.basicAuth, url);
+  if (basicAuth) {
+    return { Authorization: `Basic ${basicAuth}` };
+  }
+  return {};
+};
+
+// --- Response Cache ---
+
+interface HttpCacheEntry<T> {
+  data: T;
+  etag?: string;
+  lastModified?: string;
+  storedAt: number;
+}
+
+interface CachedResponse<T> {
+  data: T;
+  cacheStatus: CacheStatus;
+}
+
+// Unlike `Number(value) || fallback`, an explicit 0 is kept; only unset or invalid values fall back
+const readNumberEnv = (name: string, fallback: number): number => {
+  const value = process.env[name];
+  if (value === undefined || value.trim() === '') {
+    return fallback;
+  }
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+};
+
+const cacheConfig = {
+  ttlMs: readNumberEnv('NPMJS_MCP_CACHE_TTL_SECONDS', 300) * 1000,
+  maxEntries: readNumberEnv('NPMJS_MCP_CACHE_MAX_ENTRIES', 500),
+  directory: process.env.NPMJS_MCP_CACHE_DIR,
+  offline: /^(1|true|yes)$/i.test(process.env.NPMJS_MCP_OFFLINE || '')
+};
+
+// Map iteration order doubles as LRU order: entries are re-inserted on every access
+const memoryCache = new Map<string, HttpCacheEntry<unknown>>();
+
+const getCacheFilePath = (directory: string, url: string): string => {
+  const hash = crypto.createHash('sha256').update(url).digest('hex');
+  return path.join(directory, `${hash}.json`);
+};
+
+const rememberCacheEntry = (
+  url: string,
+  entry: HttpCacheEntry<unknown>
+): void => {
+  memoryCache.delete(url);
+  memoryCache.set(url, entry);
+  while (memoryCache.size > cacheConfig.maxEntries) {
+    const oldestKey = memoryCache.keys().next().value;
+    if (oldestKey === undefined) {
+      break;
+    }
+    memoryCache.delete(oldestKey);
+  }
+};
+
+const readCacheEntry = <T>(url: string): HttpCacheEntry<T> | undefined => {
+  const inMemory = memoryCache.get(url);
+  if (inMemory) {
+    rememberCacheEntry(url, inMemory);
+    return inMemory as HttpCacheEntry<T>;
+  }
+  if (!cacheConfig.directory) {
+    return undefined;
+  }
+  const filePath = getCacheFilePath(cacheConfig.directory, url);
+  if (!fs.existsSync(filePath)) {
+    return undefined;
+  }
+  try {
+    const persisted = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    if (persisted.url !== url || !persisted.entry) {
+      return undefined;
+    }
+    rememberCacheEntry(url, persisted.entry);
+    return persisted.entry as HttpCacheEntry<T>;
+  } catch (error) {
+    console.error(
+      `[${new Date().toISOString()}] Ignoring unreadable cache file ${filePath}: ${
+        (error as Error).message
+      }`
+    );
+    return undefined;
+  }
+};
+
+const writeCacheEntry = (
+  url: string,
+  entry: HttpCacheEntry<unknown>,
+  persist: boolean
+): void => {
+  rememberCacheEntry(url, entry);
+  if (!cacheConfig.directory || !persist) {
+    return;
+  }
+  const filePath = getCacheFilePath(cacheConfig.directory, url);
+  // Write to a temporary file first so an interrupted write never leaves a truncated entry behind
+  const temporaryPath = `${filePath}.${process.pid}.tmp`;
+  fs.promises
+    .mkdir(cacheConfig.directory, { recursive: true })
+    .then(() =>
+      fs.promises.writeFile(temporaryPath, JSON.stringify({ url, entry }))
+    )
+    .then(() => fs.promises.rename(temporaryPath, filePath))
+    .catch(error => {
+      console.error(
+        `[${new Date().toISOString()}] Failed to persist cache entry for ${url}: ${
+          (error as Error).message
+        }`
+      );
+    });
+};
+
+/**
+ * GET with a TTL cache in front of it. Expired entries are revalidated with
+ * If-None-Match / If-Modified-Since; in offline mode an expired entry is
+ * served as-is when the server cannot be reached.
+ */
+const cachedGet = async <T>(
+  url: string,
+  headers: { [header: string]: string } = {}
+): Promise<CachedResponse<T>> => {
+  const cached = readCacheEntry<T>(url);
+  if (cached && Date.now() - cached.storedAt < cacheConfig.ttlMs) {
+    return { data: cached.data, cacheStatus: 'hit' };
+  }
+  // Responses fetched with registry credentials may be private; they stay in memory only
+  const persist = !Object.keys(headers).some(
+    header => header.toLowerCase() === 'authorization'
+  );
+  const requestHeaders = { ...headers };
+  if (cached?.etag) {
+    requestHeaders['If-None-Match'] = cached.etag;
+  }
+  if (cached?.lastModified) {
+    requestHeaders['If-Modified-Since'] = cached.lastModified;
+  }
+  try {
+    const response = await axios.get<T>(url, {
+      headers: requestHeaders,
+      validateStatus: status =>
+        (status >= 200 && status < 300) || (status === 304 && !!cached)
+    });
+    if (response.status === 304 && cached) {
+      writeCacheEntry(url, { ...cached, storedAt: Date.now() }, persist);
+      return { data: cached.data, cacheStatus: 'revalidated' };
+    }
+    const etag = response.headers['etag'];
+    const lastModified = response.headers['last-modified'];
+    writeCacheEntry(
+      url,
+      {
+        data: response.data,
+        etag: typeof etag === 'string' ? etag : undefined,
+        lastModified:
+          typeof lastModified === 'string' ? lastModified : undefined,
+        storedAt: Date.now()
+      },
+      persist
+    );
+    return { data: response.data, cacheStatus: 'miss' };
+  } catch (error) {
+    const axiosError = error as AxiosError;
+    const unreachable =
+      !axiosError.response || axiosError.response.status >= 500;
+    if (cached && cacheConfig.offline && unreachable) {
+      console.error(
+        `[${new Date().toISOString()}] Serving stale cached response for ${url}: ${
+          axiosError.message
+        }`
+      );
+      return { data: cached.data, cacheStatus: 'stale' };
+    }
+    throw error;
+  }
+};
+
+// Combines the cache status of several requests into the least fresh one
+const combineCacheStatuses = (
+  statuses: CacheStatus[]
+): CacheStatus | undefined => {
+  const order: CacheStatus[] = ['stale', 'miss', 'revalidated', 'hit'];
+  return order.find(status => statuses.includes(status));
+};
+
+class NpmApiError extends Error {
+  constructor(
+    message: string,
+    public statusCode?: number,
+    public code?: string
+  ) {
+    super(message);
+    this.name = 'NpmApiError';
+  }
+}
+
+const toNpmApiError = (error: unknown, description: string): NpmApiError => {
+  const axiosError = error as AxiosError;
+  if (axiosError.response) {
+    return new NpmApiError(
+      `Failed to fetch ${description} from NPM Registry. Status: ${axiosError.response.status}`,
+      axiosError.response.status,
+      'NPM_API_ERROR'
+    );
+  } else if (axiosError.request) {
+    return new NpmApiError(
+      `No response received from NPM Registry while fetching ${description}.`,
+      undefined,
+      'NPM_API_NO_RESPONSE'
+    );
+  }
+  return new NpmApiError(
+    `Error fetching ${description}: ${axiosError.message}`,
+    undefined,
+    'NPM_API_REQUEST_SETUP_ERROR'
+  );
+};
+
+const fetchPackageData = async (
+  encodedPackageName: string
+): Promise<CachedResponse<NpmRegistryPackageInfo>> => {
+  const packageName = decodeURIComponent(encodedPackageName);
+  const apiUrl = `${getRegistryUrlForPackage(
+    packageName
+  )}/${encodedPackageName}`;
+  console.error(
+    `[${new Date().toISOString()}] Fetching package data from: ${apiUrl}`
+  );
+  try {
+    return await cachedGet<NpmRegistryPackageInfo>(
+      apiUrl,
+      getRegistryRequestHeaders(apiUrl)
+    );
+  } catch (error) {
+    const axiosError = error as AxiosError;
+    if (axiosError.response) {
+      if (axiosError.response.status === 404) {
+        throw new NpmApiError(
+          `Package '${packageName}' not found on ${
+            apiUrl.startsWith(DEFAULT_NPM_REGISTRY_BASE_URL)
+              ? 'npmjs'
+              : 'the configured registry'
+          }.`,
+          404,
+          'NPM_PKG_NOT_FOUND'
+        );
+      }
+      if (
+        axiosError.response.status === 401 ||
+        axiosError.response.status === 403
+      ) {
+        throw new NpmApiError(
+          `Not authorized to read package '${packageName}' from ${getRegistryUrlForPackage(
+            packageName
+          )}. Check the _authToken configured for this registry in .npmrc.`,
+          axiosError.response.status,
+          'NPM_API_UNAUTHORIZED'
+        );
+      }
+    }
+    throw toNpmApiError(error, 'package data');
+  }
+};
+
+const transformDataForSummary = (
+  rawData: NpmRegistryPackageInfo,
+  sourceUrl: string,
+  cacheStatus?: CacheStatus
+): McpSummaryData => {
+  const latestVersion = rawData['dist-tags']?.latest;
+  let publishDateLatest: string | undefined;
+  if (latestVersion && rawData.time && rawData.time[latestVersion]) {
+    publishDateLatest = rawData.time[latestVersion];
+  }
+  let licenseString: string | undefined;
+  if (typeof rawData.license === 'string') {
+    licenseString = rawData.license;
+  } else if (
+    rawData.license &&
+    typeof rawData.license === 'object' &&
+    rawData.license.type
+  ) {
+    licenseString = rawData.license.type;
+  }
+  let repositoryUrl: string | undefined;
+  if (rawData.repository && rawData.repository.url) {
+    repositoryUrl = rawData.repository.url
+      .replace(/^git\+/, '')
+      .replace(/\.git$/, '');
+  }
+  return {
+    name: rawData.name,
+    latestVersion: latestVersion || 'N/A',
+    description: rawData.description,
+    publishDateLatest: publishDateLatest,
+    license: licenseString,
+    homepage: rawData.homepage,
+    repository: repositoryUrl,
+    source: sourceUrl,
+    cache: cacheStatus
+  };
+};
+
+const transformDataForVersions = (
+  rawData: NpmRegistryPackageInfo,
+  sourceUrl: string,
+  cacheStatus?: CacheStatus
+): McpVersionsData => {
+  const versionsMap: { [version: string]: string } = {};
+  if (rawData.time) {
+    for (const key in rawData.time) {
+      if (
+        Object.prototype.hasOwnProperty.call(rawData.time, key) &&
+        /^\d+\.\d+\.\d+([-.].*)?$/.test(key)
+      ) {
+        versionsMap[key] = rawData.time[key];
+      }
+    }
+  }
+  return { versions: versionsMap, source: sourceUrl, cache: cacheStatus };
+};
+
+const transformDataForDetails = (
+  rawData: NpmRegistryPackageInfo,
+  sourceUrl: string,
+  cacheStatus?: CacheStatus
+): McpDetailsData => {
+  const summaryData = transformDataForSummary(rawData, sourceUrl, cacheStatus);
+  const maintainers =
+    rawData.maintainers?.map(m => ({ name: m.name, email: m.email })) || [];
+  const keywords = rawData.keywords || [];
+  return {
+    ...summaryData,
+    maintainers: maintainers.length > 0 ? maintainers : undefined,
+    keywords: keywords.length > 0 ? keywords : undefined
+  };
+};
+
+/**
+ * Resolves an exact version, dist-tag or semver range against a packument.
+ * Like npm, a range prefers the 'latest' tag when it satisfies the range.
+ */
+const resolvePackageVersion = (
+  rawData: NpmRegistryPackageInfo,
+  versionSpec?: string
+): { version: string; resolvedBy: McpVersionManifestData['resolvedBy'] } => {
+  const availableVersions = Object.keys(rawData.versions || {});
+  const spec = versionSpec?.trim() || 'latest';
+  const distTags = rawData['dist-tags'] || {};
+  if (distTags[spec]) {
+    return { version: distTags[spec], resolvedBy: 'dist-tag' };
+  }
+  const exactVersion = semver.valid(spec);
+  if (exactVersion && rawData.versions?.[exactVersion]) {
+    return { version: exactVersion, resolvedBy: 'exact' };
+  }
+  if (!exactVersion && semver.validRange(spec)) {
+    const latest = distTags.latest;
+    if (latest && semver.satisfies(latest, spec)) {
+      return { version: latest, resolvedBy: 'range' };
+    }
+    const matchingVersion = semver.maxSatisfying(availableVersions, spec);
+    if (matchingVersion) {
+      return { version: matchingVersion, resolvedBy: 'range' };
+    }
+  }
+  throw new NpmApiError(
+    `No version of '${rawData.name}' matches '${spec}'.`,
+    404,
+    'NPM_VERSION_NOT_FOUND'
+  );
+};
+
+// A dist-tag can point at a version the packument no longer lists
+const getVersionManifest = (
+  rawData: NpmRegistryPackageInfo,
+  version: string
+): NpmPackageVersionManifest => {
+  const manifest = rawData.versions?.[version];
+  if (!manifest) {
+    throw new NpmApiError(
+      `Manifest for '${rawData.name}@${version}' is missing from the registry response.`,
+      404,
+      'NPM_VERSION_NOT_FOUND'
+    );
+  }
+  return manifest;
+};
+
+const transformDataForVersionManifest = (
+  rawData: NpmRegistryPackageInfo,
+  requestedVersion: string,
+  sourceUrl: string,
+  cacheStatus?: CacheStatus
+): McpVersionManifestData => {
+  const { version, resolvedBy } = resolvePackageVersion(
+    rawData,
+    requestedVersion
+  );
+  const manifest = getVersionManifest(rawData, version);
+  // A string bin is shorthand for a single command named after the package
+  const bin =
+    typeof manifest.bin === 'string'
+      ? { [rawData.name.replace(/^@[^/]+\//, '')]: manifest.bin }
+      : manifest.bin;
+  return {
+    name: rawData.name,
+    requestedVersion,
+    version,
+    resolvedBy,
+    publishDate: rawData.time?.[version],
+    deprecated: manifest.deprecated || undefined,
+    dependencies: manifest.dependencies,
+    peerDependencies: manifest.peerDependencies,
+    peerDependenciesMeta: manifest.peerDependenciesMeta,
+    optionalDependencies: manifest.optionalDependencies,
+    engines: manifest.engines,
+    bin,
+    type: manifest.type,
+    main: manifest.main,
+    module: manifest.module,
+    types: manifest.types ?? manifest.typings,
+    exports: manifest.exports,
+    dist: {
+      tarball: manifest.dist.tarball,
+      integrity: manifest.dist.integrity,
+      shasum: manifest.dist.shasum,
+      fileCount: manifest.dist.fileCount,
+      unpackedSize: manifest.dist.unpackedSize
+    },
+    source: sourceUrl,
+    cache: cacheStatus
+  };
+};
+
+const fetchSinglePeriodDownloads = async (
+  period: string,
+  encodedPackageName: string
+): Promise<CachedResponse<number> | null> => {
+  const apiUrl = `${registryConfig.downloadsApiBaseUrl}/${period}/${encodedPackageName}`;
+  console.error(
+    `[${new Date().toISOString()}] Fetching downloads for ${period} from: ${apiUrl}`
+  );
+  try {
+    const response = await cachedGet<NpmDownloadsApiResponse>(apiUrl);
+    return {
+      data: response.data.downloads,
+      cacheStatus: response.cacheStatus
+    };
+  } catch (error) {
+    const axiosError = error as AxiosError;
+    console.error(
+      `[${new Date().toISOString()}] Failed to fetch downloads for period ${period}, package ${decodeURIComponent(
+        encodedPackageName
+      )}: ${axiosError.message}`
+    );
+    return null;
+  }
+};
+
+const fetchPackageDownloads = async (
+  encodedPackageName: string,
+  requestedPeriod?: string
+): Promise<McpDownloadsData> => {
+  const periodsToFetch = requestedPeriod
+    ? [requestedPeriod]
+    : ['last-day', 'last-week', 'last-month'];
+  const downloadResults: { [period: string]: number | null } = {};
+  const cacheStatuses: CacheStatus[] = [];
+  const downloadPromises = periodsToFetch.map(period =>
+    fetchSinglePeriodDownloads(period, encodedPackageName).then(response => ({
+      period,
+      downloads: response ? response.data : null,
+      cacheStatus: response?.cacheStatus
+    }))
+  );
+  const results = await Promise.allSettled(downloadPromises);
+  results.forEach(result => {
+    if (result.status === 'fulfilled' && result.value.cacheStatus) {
+      cacheStatuses.push(result.value.cacheStatus);
+    }
+    if (result.status === 'fulfilled' && result.value.downloads !== null) {
+      downloadResults[result.value.period] = result.value.downloads;
+    } else if (
+      result.status === 'fulfilled' &&
+      result.value.downloads === null
+    ) {
+      downloadResults[result.value.period] = null;
+    }
+  });
+  const finalDownloads: { [key: string]: number | undefined } = {};
+  if (requestedPeriod) {
+    if (
+      downloadResults[requestedPeriod] !== null &&
+      downloadResults[requestedPeriod] !== undefined
+    ) {
+      finalDownloads[requestedPeriod] = downloadResults[
+        requestedPeriod
+      ] as number;
+    }
+  } else {
+    if (
+      downloadResults['last-day'] !== null &&
+      downloadResults['last-day'] !== undefined
+    )
+      finalDownloads['last-day'] = downloadResults['last-day'] as number;
+    if (
+      downloadResults['last-week'] !== null &&
+      downloadResults['last-week'] !== undefined
+    )
+      finalDownloads['last-week'] = downloadResults['last-week'] as number;
+    if (
+      downloadResults['last-month'] !== null &&
+      downloadResults['last-month'] !== undefined
+    )
+      finalDownloads['last-month'] = downloadResults['last-month'] as number;
+  }
+  return {
+    downloads: finalDownloads,
+    package: decodeURIComponent(encodedPackageName),
+    source: registryConfig.downloadsApiBaseUrl,
+    cache: combineCacheStatuses(cacheStatuses)
+  };
+};
+
+// The downloads API's comma-separated bulk form accepts up to 128 unscoped packages per request
+const BULK_DOWNLOADS_MAX_PACKAGES = 128;
+
+const fetchBulkPackageDownloads = async (
+  packageNames: string[],
+  requestedPeriod?: string
+): Promise<McpBulkDownloadsData> => {
+  const periodsToFetch = requestedPeriod
+    ? [requestedPeriod]
+    : ['last-day', 'last-week', 'last-month'];
+  const packages: { [packageName: string]: McpBulkDownloadsEntry } = {};
+  for (const packageName of packageNames) {
+    packages[packageName] = { downloads: {} };
+  }
+  const cacheStatuses: CacheStatus[] = [];
+  const recordError = (
+    packageName: string,
+    period: string,
+    message: string
+  ) => {
+    const entry = packages[packageName];
+    entry.errors = { ...entry.errors, [period]: message };
+  };
+
+  // Scoped packages are not supported by the bulk form and fall back to one request each
+  const scoped = packageNames.filter(name => name.startsWith('@'));
+  const unscoped = packageNames.filter(name => !name.startsWith('@'));
+  const batches: string[][] = scoped.map(name => [name]);
+  for (let i = 0; i < unscoped.length; i += BULK_DOWNLOADS_MAX_PACKAGES) {
+    batches.push(unscoped.slice(i, i + BULK_DOWNLOADS_MAX_PACKAGES));
+  }
+
+  const limit = createConcurrencyLimiter(DEFAULT_REGISTRY_CONCURRENCY);
+  await Promise.all(
+    periodsToFetch.flatMap(period =>
+      batches.map(batch =>
+        limit(async () => {
+          const apiUrl = `${
+            registryConfig.downloadsApiBaseUrl
+          }/${period}/${batch.map(encodePackageName).join(',')}`;
+          console.error(
+            `[${new Date().toISOString()}] Fetching downloads for ${period} from: ${apiUrl}`
+          );
+          try {
+            if (batch.length === 1) {
+              const response = await cachedGet<NpmDownloadsApiResponse>(apiUrl);
+              cacheStatuses.push(response.cacheStatus);
+              packages[batch[0]].downloads[
+                period as keyof McpBulkDownloadsEntry['downloads']
+              ] = response.data.downloads;
+              return;
+            }
+            const response = await cachedGet<{
+              [packageName: string]: NpmDownloadsApiResponse | null;
+            }>(apiUrl);
+            cacheStatuses.push(response.cacheStatus);
+            for (const packageName of batch) {
+              const result = response.data[packageName];
+              if (result) {
+                packages[packageName].downloads[
+                  period as keyof McpBulkDownloadsEntry['downloads']
+                ] = result.downloads;
+              } else {
+                recordError(
+                  packageName,
+                  period,
+                  `No download statistics found for '${packageName}'.`
+                );
+              }
+            }
+          } catch (error) {
+            const axiosError = error as AxiosError;
+            const message =
+              axiosError.response?.status === 404
+                ? 'No download statistics found.'
+                : toNpmApiError(error, 'download statistics').message;
+            for (const packageName of batch) {
+              recordError(packageName, period, message);
+            }
+          }
+        })
+      )
+    )
+  );
+  return {
+    packages,
+    source: registryConfig.downloadsApiBaseUrl,
+    cache: combineCacheStatuses(cacheStatuses)
+  };
+};
+
+const buildSearchQuery = (criteria: {
+  text?: string;
+  keywords?: string[];
+  author?: string;
+  maintainer?: string;
+  scope?: string;
+}): string => {
+  const parts: string[] = [];
+  if (criteria.text) {
+    parts.push(criteria.text.trim());
+  }
+  if (criteria.keywords && criteria.keywords.length > 0) {
+    parts.push(`keywords:${criteria.keywords.join(',')}`);
+  }
+  if (criteria.author) {
+    parts.push(`author:${criteria.author}`);
+  }
+  if (criteria.maintainer) {
+    parts.push(`maintainer:${criteria.maintainer}`);
+  }
+  if (criteria.scope) {
+    parts.push(`scope:${criteria.scope.replace(/^@/, '')}`);
+  }
+  return parts.join(' ');
+};
+
+const searchPackages = async (
+  query: string,
+  size: number,
+  from: number,
+  scope?: string
+): Promise<McpSearchResultsData> => {
+  // A scope qualifier is sent to that scope's registry, everything else to the default one
+  const registryUrl = scope
+    ? getRegistryUrlForPackage(`@${scope.replace(/^@/, '')}/`)
+    : registryConfig.registry;
+  const apiUrl = `${registryUrl}/-/v1/search?text=${encodeURIComponent(
+    query
+  )}&size=${size}&from=${from}`;
+  console.error(
+    `[${new Date().toISOString()}] Searching packages from: ${apiUrl}`
+  );
+  let response: CachedResponse<NpmSearchApiResponse>;
+  try {
+    response = await cachedGet<NpmSearchApiResponse>(
+      apiUrl,
+      getRegistryRequestHeaders(apiUrl)
+    );
+  } catch (error) {
+    throw toNpmApiError(error, 'search results');
+  }
+  const results = (response.data.objects || []).map(
+    (entry): McpSearchResultEntry => {
+      const pkg = entry.package;
+      return {
+        name: pkg.name,
+        latestVersion: pkg.version || 'N/A',
+        description: pkg.description,
+        publishDateLatest: pkg.date,
+        license: pkg.license,
+        homepage: pkg.links?.homepage,
+        repository: pkg.links?.repository
+          ?.replace(/^git\+/, '')
+          .replace(/\.git$/, ''),
+        source: getPackageSourceUrl(pkg.name),
+        keywords:
+          pkg.keywords && pkg.keywords.length > 0 ? pkg.keywords : undefined,
+        scores: {
+          final: entry.score?.final,
+          quality: entry.score?.detail?.quality,
+          popularity: entry.score?.detail?.popularity,
+          maintenance: entry.score?.detail?.maintenance,
+          searchScore: entry.searchScore
+        }
+      };
+    }
+  );
+  return {
+    query,
+    total: response.data.total ?? results.length,
+    from,
+    size,
+    results,
+    source: apiUrl,
+    cache: response.cacheStatus
+  };
+};
+
+const createConcurrencyLimiter = (limit: number) => {
+  let active = 0;
+  const queue: Array<() => void> = [];
+  const next = () => {
+    if (active >= limit || queue.length === 0) {
+      return;
+    }
+    active++;
+    queue.shift()!();
+  };
+  return <T>(task: () => Promise<T>): Promise<T> =>
+    new Promise<T>((resolve, reject) => {
+      queue.push(() => {
+        task()
+          .then(resolve, reject)
+          .finally(() => {
+            active--;
+            next();
+          });
+      });
+      next();
+    });
+};
+
+const DEFAULT_REGISTRY_CONCURRENCY = 8;
+
+/**
+ * Resolves the production dependency graph breadth-first, one depth level at a
+ * time, so that the first occurrence of a package is always its shallowest one.
+ */
+const resolveDependencyTree = async (
+  packageName: string,
+  versionSpec: string,
+  maxDepth: number,
+  concurrency: number
+): Promise<McpDependencyTreeData> => {
+  const limit = createConcurrencyLimiter(concurrency);
+  const packuments = new Map<string, Promise<NpmRegistryPackageInfo>>();
+  const getPackument = (name: string): Promise<NpmRegistryPackageInfo> => {
+    let packument = packuments.get(name);
+    if (!packument) {
+      packument = limit(() => fetchPackageData(encodePackageName(name))).then(
+        response => response.data
+      );
+      packuments.set(name, packument);
+    }
+    return packument;
+  };
+
+  const root: McpDependencyTreeNode = { name: packageName, range: versionSpec };
+  const flat = new Map<string, McpFlatDependencyEntry>();
+  const expanded = new Set<string>();
+  let duplicates = 0;
+  let cycles = 0;
+  let errors = 0;
+  let truncated = false;
+
+  let level: Array<{
+    node: McpDependencyTreeNode;
+    ancestors: string[];
+    manifest?: NpmPackageVersionManifest;
+  }> = [{ node: root, ancestors: [] }];
+  for (let depth = 0; level.length > 0; depth++) {
+    await Promise.all(
+      level.map(async entry => {
+        try {
+          const packument = await getPackument(entry.node.name);
+          const { version } = resolvePackageVersion(
+            packument,
+            entry.node.range
+          );
+          entry.node.version = version;
+          entry.manifest = packument.versions?.[version];
+        } catch (error) {
+          if (entry.node === root) {
+            throw error;
+          }
+          entry.node.error = (error as Error).message;
+        }
+      })
+    );
+    const nextLevel: typeof level = [];
+    for (const { node, ancestors, manifest } of level) {
+      if (!node.version) {
+        errors++;
+        continue;
+      }
+      const key = `${node.name}@${node.version}`;
+      const parent = ancestors[ancestors.length - 1];
+      if (node !== root) {
+        const flatEntry = flat.get(key);
+        if (flatEntry) {
+          if (parent && !flatEntry.requiredBy.includes(parent)) {
+            flatEntry.requiredBy.push(parent);
+          }
+        } else {
+          flat.set(key, {
+            name: node.name,
+            version: node.version,
+            depth,
+            requiredBy: parent ? [parent] : []
+          });
+        }
+      }
+      if (ancestors.includes(key)) {
+        node.cycle = true;
+        cycles++;
+        continue;
+      }
+      if (expanded.has(key)) {
+        node.duplicate = true;
+        duplicates++;
+        continue;
+      }
+      const dependencies = Object.entries(manifest?.dependencies || {});
+      if (dependencies.length === 0) {
+        expanded.add(key);
+        continue;
+      }
+      if (depth >= maxDepth) {
+        node.depthLimitReached = true;
+        truncated = true;
+        continue;
+      }
+      expanded.add(key);
+      node.dependencies = dependencies.map(([name, range]) => ({
+        name,
+        range
+      }));
+      for (const child of node.dependencies) {
+        nextLevel.push({ node: child, ancestors: [...ancestors, key] });
+      }
+    }
+    level = nextLevel;
+  }
+
+  return {
+    name: packageName,
+    version: root.version!,
+    maxDepth,
+    totalUniquePackages: flat.size,
+    duplicates,
+    cycles,
+    truncated,
+    errors,
+    tree: root,
+    packages: Array.from(flat.values()),
+    source: getPackageSourceUrl(packageName)
+  };
+};
+
+// --- Lockfile Parsing ---
+
+const LOCKFILE_NAMES: Array<{ file: string; format: LockfileFormat }> = [
+  { file: 'package-lock.json', format: 'npm' },
+  { file: 'npm-shrinkwrap.json', format: 'npm' },
+  { file: 'yarn.lock', format: 'yarn-classic' },
+  { file: 'pnpm-lock.yaml', format: 'pnpm' }
+];
+
+const readProjectManifest = (
+  projectPath: string
+): ProjectPackageManifest | undefined => {
+  const manifestPath = path.join(projectPath, 'package.json');
+  if (!fs.existsSync(manifestPath)) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(fs.readFileSync(manifestPath, 'utf-8'));
+  } catch (err) {
+    throw new Error(
+      `Failed to parse package.json in '${projectPath}': ${
+        (err as Error).message
+      }`
+    );
+  }
+};
+
+const getManifestDirectDependencies = (
+  manifest: ProjectPackageManifest | undefined
+): LockfileDirectDependency[] => {
+  const directDependencies: LockfileDirectDependency[] = [];
+  const groups: Array<[LockfileDirectDependency['type'], object | undefined]> =
+    [
+      ['prod', manifest?.dependencies],
+      ['dev', manifest?.devDependencies],
+      ['optional', manifest?.optionalDependencies]
+    ];
+  for (const [type, group] of groups) {
+    for (const [name, range] of Object.entries(group || {})) {
+      // optionalDependencies are repeated in dependencies by npm; keep one entry
+      if (!directDependencies.some(dependency => dependency.name === name)) {
+        directDependencies.push({ name, range: String(range), type });
+      }
+    }
+  }
+  return directDependencies;
+};
+
+// Splits "name@range" descriptors, including scoped names and protocol ranges ("@s/n@npm:^1")
+const splitPackageDescriptor = (
+  descriptor: string
+): { name: string; range: string } => {
+  const separatorIndex = descriptor.indexOf('@', 1);
+  if (separatorIndex === -1) {
+    return { name: descriptor, range: '' };
+  }
+  return {
+    name: descriptor.substring(0, separatorIndex),
+    range: descriptor.substring(separatorIndex + 1)
+  };
+};
+
+const classifyResolvedSource = (resolved?: string): ResolvedSourceKind => {
+  if (!resolved || /^(npm|patch):/.test(resolved)) {
+    return 'registry';
+  }
+  if (
+    /^(git\+|git:|github:|gitlab:|bitbucket:|git@)/.test(resolved) ||
+    /#commit=/.test(resolved) ||
+    /\.git(#|$)/.test(resolved) ||
+    resolved.includes('codeload.github.com')
+  ) {
+    return 'git';
+  }
+  if (/^(link|portal|workspace):/.test(resolved)) {
+    return 'link';
+  }
+  if (/^https?:/.test(resolved)) {
+    // Registry tarballs all follow the <registry>/<name>/-/<name>-<version>.tgz layout
+    return /\/-\/[^/]+\.tgz([#?].*)?$/.test(resolved) ? 'registry' : 'tarball';
+  }
+  return 'file';
+};
+
+const resolveNodeModulesPath = (
+  packages: Map<string, LockfilePackage>,
+  links: Map<string, string>,
+  fromId: string,
+  name: string
+): string | undefined => {
+  let base = fromId;
+  for (;;) {
+    const candidate = base
+      ? `${base}/node_modules/${name}`
+      : `node_modules/${name}`;
+    if (packages.has(candidate) || links.has(candidate)) {
+      return links.get(candidate) ?? candidate;
+    }
+    if (!base) {
+      return undefined;
+    }
+    const parentIndex = base.lastIndexOf('/node_modules/');
+    base = parentIndex === -1 ? '' : base.substring(0, parentIndex);
+  }
+};
+
+const parseNpmLockfile = (
+  lockfile: any,
+  manifest: ProjectPackageManifest | undefined
+): Omit<ParsedLockfile, 'format' | 'lockfilePath'> => {
+  const packages = new Map<string, LockfilePackage>();
+  const links = new Map<string, string>();
+  const requested = new Map<string, { [name: string]: string }>();
+
+  if (lockfile.packages) {
+    // lockfileVersion 2 and 3: a flat map keyed by node_modules path
+    for (const [id, entry] of Object.entries<any>(lockfile.packages)) {
+      if (id === '') {
+        continue;
+      }
+      if (entry.link) {
+        links.set(id, entry.resolved);
+        continue;
+      }
+      const isWorkspace =
+        !id.startsWith('node_modules/') && !id.includes('/node_modules/');
+      packages.set(id, {
+        id,
+        name: entry.name || id.substring(id.lastIndexOf('node_modules/') + 13),
+        version: entry.version || '',
+        resolved: entry.resolved,
+        integrity: entry.integrity,
+        dev: entry.dev || entry.devOptional,
+        optional: entry.optional,
+        local: isWorkspace || !!entry.inBundle,
+        license: entry.license,
+        dependencies: []
+      });
+      requested.set(id, {
+        ...entry.peerDependencies,
+        ...entry.optionalDependencies,
+        ...entry.dependencies
+      });
+    }
+  } else if (lockfile.dependencies) {
+    // lockfileVersion 1: a nested tree, converted to node_modules paths
+    const visit = (dependencies: any, prefix: string) => {
+      for (const [name, entry] of Object.entries<any>(dependencies)) {
+        const id = `${prefix}node_modules/${name}`;
+        const isUrlVersion = /^[a-z+]+:/.test(entry.version || '');
+        packages.set(id, {
+          id,
+          name,
+          version: entry.version || '',
+          resolved:
+            entry.resolved || (isUrlVersion ? entry.version : undefined),
+          integrity: entry.integrity,
+          dev: entry.dev,
+          optional: entry.optional,
+          local: !!entry.bundled,
+          dependencies: []
+        });
+        requested.set(id, entry.requires || {});
+        if (entry.dependencies) {
+          visit(entry.dependencies, `${id}/`);
+        }
+      }
+    };
+    visit(lockfile.dependencies, '');
+  }
+
+  for (const [id, dependencies] of requested) {
+    const pkg = packages.get(id)!;
+    for (const name of Object.keys(dependencies)) {
+      const childId = resolveNodeModulesPath(packages, links, id, name);
+      if (childId && !pkg.dependencies.includes(childId)) {
+        pkg.dependencies.push(childId);
+      }
+    }
+  }
+
+  const rootEntry = lockfile.packages?.[''];
+  const directDependencies = getManifestDirectDependencies(
+    manifest ?? rootEntry
+  ).map(dependency => ({
+    ...dependency,
+    id: resolveNodeModulesPath(packages, links, '', dependency.name)
+  }));
+  return {
+    lockfileVersion:
+      lockfile.lockfileVersion !== undefined
+        ? String(lockfile.lockfileVersion)
+        : undefined,
+    directDependencies,
+    packages
+  };
+};
+
+const unquoteYarnValue = (value: string): string => {
+  return /^".*"$/.test(value)
+    ? value.substring(1, value.length - 1).replace(/\\"/g, '"')
+    : value;
+};
+
+// Yarn classic uses its own indentation-based format rather than YAML
+const parseYarnClassicSyntax = (contents: string): { [key: string]: any } => {
+  const root: { [key: string]: any } = {};
+  const stack: Array<{ indent: number; value: { [key: string]: any } }> = [
+    { indent: -1, value: root }
+  ];
+  for (const rawLine of contents.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) {
+      continue;
+    }
+    const indent = rawLine.length - rawLine.trimStart().length;
+    while (stack.length > 1 && indent <= stack[stack.length - 1].indent) {
+      stack.pop();
+    }
+    const parent = stack[stack.length - 1].value;
+    if (line.endsWith(':')) {
+      const child = {};
+      parent[line.substring(0, line.length - 1)] = child;
+      stack.push({ indent, value: child });
+      continue;
+    }
+    const match = /^("(?:[^"\\]|\\.)*"|\S+)\s+(.*)$/.exec(line);
+    if (match) {
+      parent[unquoteYarnValue(match[1])] = unquoteYarnValue(match[2]);
+    }
+  }
+  return root;
+};
+
+const parseYarnLockfile = (
+  contents: string,
+  manifest: ProjectPackageManifest | undefined
+): Omit<ParsedLockfile, 'lockfilePath'> => {
+  const isBerry = /^__metadata:/m.test(contents);
+  const entries: { [key: string]: any } = isBerry
+    ? YAML.parse(contents)
+    : parseYarnClassicSyntax(contents);
+  const packages = new Map<string, LockfilePackage>();
+  const descriptors = new Map<string, string>();
+  for (const [key, entry] of Object.entries<any>(entries)) {
+    if (key === '__metadata' || !entry || typeof entry !== 'object') {
+      continue;
+    }
+    const keyDescriptors = key
+      .split(/,\s*/)
+      .map(descriptor => unquoteYarnValue(descriptor.trim()));
+    const { name } = splitPackageDescriptor(keyDescriptors[0]);
+    let resolved: string | undefined = entry.resolved;
+    if (isBerry && typeof entry.resolution === 'string') {
+      resolved = splitPackageDescriptor(entry.resolution).range;
+    }
+    const sourceKind = classifyResolvedSource(resolved);
+    packages.set(key, {
+      id: key,
+      name,
+      version: String(entry.version ?? ''),
+      resolved,
+      // Old yarn lockfiles only carry a sha1 hash in the resolved URL's fragment
+      integrity:
+        entry.integrity ||
+        entry.checksum ||
+        (resolved && /#[0-9a-f]{40}$/.test(resolved) ? resolved : undefined),
+      local: sourceKind === 'link' || (isBerry && entry.linkType === 'soft'),
+      dependencies: []
+    });
+    for (const descriptor of keyDescriptors) {
+      descriptors.set(descriptor, key);
+    }
+  }
+  const findDescriptor = (name: string, range: string) =>
+    descriptors.get(`${name}@${range}`) ??
+    descriptors.get(`${name}@npm:${range}`);
+  for (const [key, entry] of Object.entries<any>(entries)) {
+    const pkg = packages.get(key);
+    if (!pkg) {
+      continue;
+    }
+    const dependencies = {
+      ...entry.dependencies,
+      ...entry.optionalDependencies
+    };
+    for (const [name, range] of Object.entries(dependencies)) {
+      const childId = findDescriptor(name, String(range));
+      if (childId) {
+        pkg.dependencies.push(childId);
+      }
+    }
+  }
+  const directDependencies = getManifestDirectDependencies(manifest).map(
+    dependency => ({
+      ...dependency,
+      id: findDescriptor(dependency.name, dependency.range)
+    })
+  );
+  return {
+    format: isBerry ? 'yarn-berry' : 'yarn-classic',
+    lockfileVersion: isBerry
+      ? String(entries.__metadata?.version ?? '')
+      : (/^# yarn lockfile v(\d+)/m.exec(contents) || [])[1],
+    directDependencies,
+    packages
+  };
+};
+
+const parsePnpmLockfile = (
+  contents: string
+): Omit<ParsedLockfile, 'format' | 'lockfilePath'> => {
+  const lockfile = YAML.parse(contents) || {};
+  const lockfileVersion = String(lockfile.lockfileVersion ?? '');
+  const majorVersion = parseFloat(lockfileVersion) || 5;
+  const normalizeId = (id: string) => id.replace(/^\//, '');
+  // Builds the package key a dependency reference points to; the format changed in v6 and again in v9
+  const toPackageId = (name: string, ref: string): string | undefined => {
+    if (/^(link|file):/.test(ref)) {
+      return undefined;
+    }
+    if (ref.startsWith('/')) {
+      return normalizeId(ref);
+    }
+    if (!/^\d/.test(ref) && (ref.includes('@') || ref.includes('/'))) {
+      return ref;
+    }
+    return majorVersion >= 6 ? `${name}@${ref}` : `${name}/${ref}`;
+  };
+  const parseId = (id: string): { name: string; version: string } => {
+    if (majorVersion >= 6) {
+      const { name, range } = splitPackageDescriptor(id.replace(/\(.*$/, ''));
+      return { name, version: range };
+    }
+    const separatorIndex = id.lastIndexOf('/');
+    return {
+      name: id.substring(0, separatorIndex),
+      version: id.substring(separatorIndex + 1).split('_')[0]
+    };
+  };
+
+  const packages = new Map<string, LockfilePackage>();
+  // From v9 on, dependency edges live in "snapshots" and "packages" only holds resolution data
+  const snapshots: { [id: string]: any } =
+    majorVersion >= 9 ? lockfile.snapshots || {} : lockfile.packages || {};
+  for (const [rawId, snapshot] of Object.entries<any>(snapshots)) {
+    const id = normalizeId(rawId);
+    const info =
+      majorVersion >= 9
+        ? lockfile.packages?.[id.replace(/\(.*$/, '')] || {}
+        : snapshot || {};
+    const parsedId = parseId(id);
+    const resolution = info.resolution || {};
+    let resolved: string | undefined;
+    if (resolution.type === 'git') {
+      resolved = `git+${resolution.repo}#${resolution.commit}`;
+    } else if (resolution.tarball) {
+      resolved = resolution.tarball;
+    } else if (resolution.directory) {
+      resolved = `file:${resolution.directory}`;
+    }
+    packages.set(id, {
+      id,
+      name: info.name || parsedId.name,
+      version: info.version || parsedId.version,
+      resolved,
+      integrity: resolution.integrity,
+      dev: snapshot?.dev,
+      optional: snapshot?.optional ?? info.optional,
+      local: !!resolution.directory,
+      dependencies: []
+    });
+  }
+  for (const [rawId, snapshot] of Object.entries<any>(snapshots)) {
+    const pkg = packages.get(normalizeId(rawId))!;
+    const dependencies = {
+      ...snapshot?.dependencies,
+      ...snapshot?.optionalDependencies
+    };
+    for (const [name, ref] of Object.entries(dependencies)) {
+      const childId = toPackageId(name, String(ref));
+      if (childId && packages.has(childId)) {
+        pkg.dependencies.push(childId);
+      }
+    }
+  }
+
+  // Single-project lockfiles before v6 keep the root dependencies at the top level
+  const importer = lockfile.importers?.['.'] || lockfile;
+  const directDependencies: LockfileDirectDependency[] = [];
+  const groups: Array<[LockfileDirectDependency['type'], string]> = [
+    ['prod', 'dependencies'],
+    ['dev', 'devDependencies'],
+    ['optional', 'optionalDependencies']
+  ];
+  for (const [type, field] of groups) {
+    for (const [name, value] of Object.entries<any>(importer[field] || {})) {
+      const ref = typeof value === 'object' ? value.version : String(value);
+      const range =
+        typeof value === 'object'
+          ? value.specifier
+          : importer.specifiers?.[name] ?? ref;
+      directDependencies.push({
+        name,
+        range: String(range),
+        type,
+        id: toPackageId(name, String(ref))
+      });
+    }
+  }
+  return { lockfileVersion, directDependencies, packages };
+};
+
+const readLockfile = (lockfilePath: string): ParsedLockfile => {
+  const lockfileEntry = LOCKFILE_NAMES.find(
+    candidate => candidate.file === path.basename(lockfilePath)
+  );
+  if (!lockfileEntry) {
+    throw new Error(
+      `Unsupported lockfile '${lockfilePath}'. Expected one of: ${LOCKFILE_NAMES.map(
+        candidate => candidate.file
+      ).join(', ')}.`
+    );
+  }
+  if (!fs.existsSync(lockfilePath)) {
+    throw new Error(`Lockfile '${lockfilePath}' does not exist.`);
+  }
+  const contents = fs.readFileSync(lockfilePath, 'utf-8');
+  const manifest = readProjectManifest(path.dirname(lockfilePath));
+  try {
+    if (lockfileEntry.format === 'npm') {
+      return {
+        format: 'npm',
+        lockfilePath,
+        ...parseNpmLockfile(JSON.parse(contents), manifest)
+      };
+    }
+    if (lockfileEntry.format === 'pnpm') {
+      return { format: 'pnpm', lockfilePath, ...parsePnpmLockfile(contents) };
+    }
+    return { lockfilePath, ...parseYarnLockfile(contents, manifest) };
+  } catch (err) {
+    throw new Error(
+      `Failed to parse ${lockfilePath}: ${(err as Error).message}`
+    );
+  }
+};
+
+const readProjectLockfile = (projectPath: string): ParsedLockfile => {
+  const lockfileEntry = LOCKFILE_NAMES.find(candidate =>
+    fs.existsSync(path.join(projectPath, candidate.file))
+  );
+  if (!lockfileEntry) {
+    throw new Error(
+      `No lockfile found in '${projectPath}'. Expected one of: ${LOCKFILE_NAMES.map(
+        candidate => candidate.file
+      ).join(', ')}.`
+    );
+  }
+  return readLockfile(path.join(projectPath, lockfileEntry.file));
+};
+
+const analyzeLockfile = (lockfile: ParsedLockfile): McpLockfileAnalysisData => {
+  const versionsByName = new Map<string, Set<string>>();
+  const uniquePackages = new Set<string>();
+  const nonRegistryDependencies: McpLockfileAnalysisData['nonRegistryDependencies'] =
+    [];
+  const missingIntegrity: McpLockfileAnalysisData['missingIntegrity'] = [];
+  const reported = new Set<string>();
+  for (const pkg of lockfile.packages.values()) {
+    if (pkg.local) {
+      continue;
+    }
+    const key = `${pkg.name}@${pkg.version}`;
+    uniquePackages.add(key);
+    const versions = versionsByName.get(pkg.name) || new Set<string>();
+    versions.add(pkg.version);
+    versionsByName.set(pkg.name, versions);
+    // The same name@version can appear several times (nested copies, peer variants)
+    if (reported.has(key)) {
+      continue;
+    }
+    reported.add(key);
+    const kind = classifyResolvedSource(pkg.resolved);
+    if (kind !== 'registry') {
+      nonRegistryDependencies.push({
+        name: pkg.name,
+        version: pkg.version,
+        kind,
+        resolved: pkg.resolved
+      });
+    }
+    if (!pkg.integrity && (kind === 'registry' || kind === 'tarball')) {
+      missingIntegrity.push({
+        name: pkg.name,
+        version: pkg.version,
+        resolved: pkg.resolved
+      });
+    }
+  }
+  const duplicates = Array.from(versionsByName.entries())
+    .filter(([, versions]) => versions.size > 1)
+    .map(([name, versions]) => ({
+      name,
+      versions: Array.from(versions).sort((a, b) =>
+        semver.valid(a) && semver.valid(b)
+          ? semver.compare(a, b)
+          : a.localeCompare(b)
+      )
+    }));
+  const directDependencies = lockfile.directDependencies.map(dependency => ({
+    name: dependency.name,
+    range: dependency.range,
+    type: dependency.type,
+    version: dependency.id
+      ? lockfile.packages.get(dependency.id)?.version
+      : undefined
+  }));
+  const directKeys = new Set(
+    directDependencies
+      .filter(dependency => dependency.version)
+      .map(dependency => `${dependency.name}@${dependency.version}`)
+  );
+  return {
+    lockfile: lockfile.lockfilePath,
+    format: lockfile.format,
+    lockfileVersion: lockfile.lockfileVersion,
+    summary: {
+      totalPackages: uniquePackages.size,
+      directDependencies: directDependencies.length,
+      transitiveDependencies: Array.from(uniquePackages).filter(
+        key => !directKeys.has(key)
+      ).length,
+      duplicatedPackages: duplicates.length,
+      nonRegistryDependencies: nonRegistryDependencies.length,
+      missingIntegrity: missingIntegrity.length
+    },
+    directDependencies,
+    duplicates,
+    nonRegistryDependencies,
+    missingIntegrity
+  };
+};
+
+// --- Project Dependency Checks ---
+
+const getVersionBump = (from: string, to: string): VersionBump => {
+  if (!semver.valid(from) || !semver.valid(to) || !semver.gt(to, from)) {
+    return 'none';
+  }
+  switch (semver.diff(from, to)) {
+    case 'major':
+    case 'premajor':
+      return 'major';
+    case 'minor':
+    case 'preminor':
+      return 'minor';
+    case 'patch':
+    case 'prepatch':
+      return 'patch';
+    default:
+      return 'prerelease';
+  }
+};
+
+const getDaysSince = (isoDate: string): number => {
+  return Math.floor((Date.now() - new Date(isoDate).getTime()) / 86400000);
+};
+
+/**
+ * Maps a package.json dependency spec to the registry package and range it
+ * refers to, following "npm:" aliases. Non-registry specs yield a reason instead.
+ */
+const getRegistrySpec = (
+  name: string,
+  spec: string
+): { packageName: string; range: string } | { skipped: string } => {
+  const aliasMatch = /^npm:(.+)$/.exec(spec);
+  if (aliasMatch) {
+    const { name: aliasedName, range } = splitPackageDescriptor(aliasMatch[1]);
+    return { packageName: aliasedName, range: range || 'latest' };
+  }
+  if (/^(workspace|link|file|portal|patch):/.test(spec)) {
+    return { skipped: `Local dependency '${spec}'` };
+  }
+  if (
+    classifyResolvedSource(spec) === 'git' ||
+    /^[^@/\s]+\/[^\s]+$/.test(spec)
+  ) {
+    return { skipped: `Git dependency '${spec}'` };
+  }
+  if (/^https?:/.test(spec)) {
+    return { skipped: `Tarball dependency '${spec}'` };
+  }
+  return { packageName: name, range: spec || 'latest' };
+};
+
+const readInstalledVersion = (
+  projectPath: string,
+  packageName: string
+): string | undefined => {
+  const manifestPath = path.join(
+    projectPath,
+    'node_modules',
+    packageName,
+    'package.json'
+  );
+  if (!fs.existsSync(manifestPath)) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(fs.readFileSync(manifestPath, 'utf-8')).version;
+  } catch {
+    return undefined;
+  }
+};
+
+// The lockfile is optional for dependency checks; without one, node_modules is consulted instead
+const tryReadProjectLockfile = (
+  projectPath: string
+): ParsedLockfile | undefined => {
+  try {
+    return readProjectLockfile(projectPath);
+  } catch (error) {
+    console.error(
+      `[${new Date().toISOString()}] Continuing without lockfile for ${projectPath}: ${
+        (error as Error).message
+      }`
+    );
+    return undefined;
+  }
+};
+
+// Prefers the version pinned by the lockfile, falling back to node_modules
+const getInstalledDependencyVersion = (
+  projectPath: string,
+  lockfile: ParsedLockfile | undefined,
+  packageName: string
+): string | undefined => {
+  const lockedId = lockfile?.directDependencies.find(
+    locked => locked.name === packageName
+  )?.id;
+  return (
+    (lockedId ? lockfile?.packages.get(lockedId)?.version : undefined) ??
+    readInstalledVersion(projectPath, packageName)
+  );
+};
+
+const checkOutdatedDependencies = async (
+  projectPath: string,
+  includeDevDependencies: boolean
+): Promise<McpOutdatedReportData> => {
+  const manifest = readProjectManifest(projectPath);
+  if (!manifest) {
+    throw new Error(`No package.json found in '${projectPath}'.`);
+  }
+  const lockfile = tryReadProjectLockfile(projectPath);
+  const directDependencies = getManifestDirectDependencies(manifest).filter(
+    dependency => includeDevDependencies || dependency.type !== 'dev'
+  );
+  const limit = createConcurrencyLimiter(DEFAULT_REGISTRY_CONCURRENCY);
+
+  const dependencies = await Promise.all(
+    directDependencies.map(
+      async (dependency): Promise<McpOutdatedDependencyEntry> => {
+        const installed = getInstalledDependencyVersion(
+          projectPath,
+          lockfile,
+          dependency.name
+        );
+        const entry: McpOutdatedDependencyEntry = {
+          name: dependency.name,
+          type: dependency.type,
+          range: dependency.range,
+          installed,
+          outdated: false
+        };
+        const registrySpec = getRegistrySpec(dependency.name, dependency.range);
+        if ('skipped' in registrySpec) {
+          entry.skipped = registrySpec.skipped;
+          return entry;
+        }
+        try {
+          const { data: rawData } = await limit(() =>
+            fetchPackageData(encodePackageName(registrySpec.packageName))
+          );
+          const latest = rawData['dist-tags']?.latest;
+          entry.latest = latest;
+          try {
+            entry.wanted = resolvePackageVersion(
+              rawData,
+              registrySpec.range
+            ).version;
+          } catch {
+            // The range matches nothing published; still report latest
+          }
+          if (latest && rawData.time?.[latest]) {
+            entry.latestPublishedAt = rawData.time[latest];
+            entry.latestAgeDays = getDaysSince(rawData.time[latest]);
+          }
+          const current = installed ?? entry.wanted;
+          if (current && latest) {
+            entry.updateType = getVersionBump(current, latest);
+            entry.outdated =
+              entry.updateType !== 'none' ||
+              (!!entry.wanted &&
+                semver.valid(current) !== null &&
+                semver.lt(current, entry.wanted));
+          }
+        } catch (error) {
+          entry.error = (error as Error).message;
+        }
+        return entry;
+      }
+    )
+  );
+
+  const outdated = dependencies.filter(dependency => dependency.outdated);
+  return {
+    projectPath,
+    lockfile: lockfile?.lockfilePath,
+    checkedAt: new Date().toISOString(),
+    summary: {
+      total: dependencies.length,
+      outdated: outdated.length,
+      major: outdated.filter(dependency => dependency.updateType === 'major')
+        .length,
+      minor: outdated.filter(dependency => dependency.updateType === 'minor')
+        .length,
+      patch: outdated.filter(dependency => dependency.updateType === 'patch')
+        .length,
+      errors: dependencies.filter(dependency => dependency.error).length
+    },
+    dependencies
+  };
+};
+
+// --- Security Advisories ---
+
+const parsePackageVersionList = (
+  packageSpecs: string[]
+): Array<{ name: string; version: string }> => {
+  return packageSpecs.map(spec => {
+    const { name, range } = splitPackageDescriptor(spec.trim());
+    const version = semver.valid(range);
+    if (!version) {
+      throw new Error(
+        `'${spec}' is not a name@version pair with an exact version.`
+      );
+    }
+    return { name, version };
+  });
+};
+
+/**
+ * Looks up advisories for exact package versions with the registry's bulk
+ * advisory endpoint (the one `npm audit` uses), grouped per registry.
+ */
+const fetchBulkAdvisories = async (
+  packages: Array<{ name: string; version: string }>
+): Promise<{ vulnerabilities: NpmAdvisoryEntry[]; sources: string[] }> => {
+  const requestsByRegistry = new Map<string, { [name: string]: string[] }>();
+  for (const { name, version } of packages) {
+    const registryUrl = getRegistryUrlForPackage(name);
+    const body = requestsByRegistry.get(registryUrl) || {};
+    body[name] = Array.from(new Set([...(body[name] || []), version]));
+    requestsByRegistry.set(registryUrl, body);
+  }
+
+  const vulnerabilities: NpmAdvisoryEntry[] = [];
+  const sources: string[] = [];
+  for (const [registryUrl, body] of requestsByRegistry) {
+    const apiUrl = `${registryUrl}/-/npm/v1/security/advisories/bulk`;
+    sources.push(apiUrl);
+    console.error(
+      `[${new Date().toISOString()}] Fetching advisories for ${
+        Object.keys(body).length
+      } packages from: ${apiUrl}`
+    );
+    let advisories: NpmBulkAdvisoryResponse;
+    try {
+      const response = await axios.post<NpmBulkAdvisoryResponse>(apiUrl, body, {
+        headers: getRegistryRequestHeaders(apiUrl)
+      });
+      advisories = response.data || {};
+    } catch (error) {
+      throw toNpmApiError(error, 'security advisories');
+    }
+    for (const [name, packageAdvisories] of Object.entries(advisories)) {
+      for (const advisory of packageAdvisories) {
+        // The endpoint answers per package name, so match each advisory back to the versions asked about
+        for (const version of body[name] || []) {
+          if (
+            !semver.satisfies(version, advisory.vulnerable_versions, {
+              includePrerelease: true
+            })
+          ) {
+            continue;
+          }
+          vulnerabilities.push({
+            package: name,
+            version,
+            severity: advisory.severity || 'unknown',
+            advisoryUrl: advisory.url || undefined,
+            advisoryId: advisory.id,
+            title: advisory.title,
+            ghsaId: (/GHSA(-[23456789cfghjmpqrvwx]{4}){3}/i.exec(
+              advisory.url || ''
+            ) || [])[0],
+            cveIds:
+              advisory.cves && advisory.cves.length > 0
+                ? advisory.cves
+                : undefined,
+            cwe:
+              advisory.cwe && advisory.cwe.length > 0
+                ? advisory.cwe
+                : undefined,
+            cvssScore: advisory.cvss?.score ?? undefined,
+            cvssVector: advisory.cvss?.vectorString ?? undefined,
+            vulnerableVersions: advisory.vulnerable_versions
+          });
+        }
+      }
+    }
+  }
+  return { vulnerabilities, sources };
+};
+
+// The bulk endpoint only returns vulnerable ranges; patched versions are worked out from the packument
+const addPatchedVersions = async (
+  vulnerabilities: NpmAdvisoryEntry[]
+): Promise<void> => {
+  const limit = createConcurrencyLimiter(DEFAULT_REGISTRY_CONCURRENCY);
+  const packuments = new Map<string, Promise<NpmRegistryPackageInfo | null>>();
+  await Promise.all(
+    vulnerabilities.map(async vulnerability => {
+      let packument = packuments.get(vulnerability.package);
+      if (!packument) {
+        packument = limit(() =>
+          fetchPackageData(encodePackageName(vulnerability.package))
+        ).then(
+          response => response.data,
+          () => null
+        );
+        packuments.set(vulnerability.package, packument);
+      }
+      const rawData = await packument;
+      if (!rawData) {
+        return;
+      }
+      const publishedVersions = Object.keys(rawData.versions || {})
+        .filter(version => semver.valid(version) && !semver.prerelease(version))
+        .sort(semver.compare);
+      const isVulnerable = (version: string) =>
+        semver.satisfies(version, vulnerability.vulnerableVersions);
+      const laterVersions = publishedVersions.filter(version =>
+        semver.gt(version, vulnerability.version)
+      );
+      const firstPatchedVersion = laterVersions.find(
+        version => !isVulnerable(version)
+      );
+      if (!firstPatchedVersion) {
+        return;
+      }
+      vulnerability.firstPatchedVersion = firstPatchedVersion;
+      const allLaterPatched = laterVersions
+        .filter(version => semver.gte(version, firstPatchedVersion))
+        .every(version => !isVulnerable(version));
+      if (allLaterPatched) {
+        vulnerability.patchedVersions = `>=${firstPatchedVersion}`;
+      }
+    })
+  );
+};
+
+// The bulk endpoint carries no CVE ids; GitHub's advisory database has them under the GHSA id.
+// Only looked up when GITHUB_TOKEN is set, so audits don't reach beyond the registry by default.
+const GITHUB_ADVISORIES_API_URL = 'https://api.github.com/advisories';
+
+const addCveIds = async (
+  vulnerabilities: NpmAdvisoryEntry[]
+): Promise<void> => {
+  if (!process.env.GITHUB_TOKEN) {
+    return;
+  }
+  const limit = createConcurrencyLimiter(DEFAULT_REGISTRY_CONCURRENCY);
+  const lookups = new Map<string, Promise<string | undefined>>();
+  await Promise.all(
+    vulnerabilities.map(async vulnerability => {
+      if (!vulnerability.ghsaId || vulnerability.cveIds) {
+        return;
+      }
+      let lookup = lookups.get(vulnerability.ghsaId);
+      if (!lookup) {
+        const apiUrl = `${GITHUB_ADVISORIES_API_URL}/${vulnerability.ghsaId}`;
+        lookup = limit(() =>
+          cachedGet<{ cve_id?: string | null }>(
+            apiUrl,
+            getGitHubRequestHeaders()
+          )
+        ).then(
+          response => response.data?.cve_id || undefined,
+          error => {
+            console.error(
+              `[${new Date().toISOString()}] Could not look up CVE id for ${
+                vulnerability.ghsaId
+              }: ${(error as Error).message}`
+            );
+            return undefined;
+          }
+        );
+        lookups.set(vulnerability.ghsaId, lookup);
+      }
+      const cveId = await lookup;
+      if (cveId) {
+        vulnerability.cveIds = [cveId];
+      }
+    })
+  );
+};
+
+const summarizeAdvisories = (
+  vulnerabilities: NpmAdvisoryEntry[]
+): NpmAuditOverallSummary => {
+  const bySeverity: NpmAuditSeveritySummary = {};
+  for (const vulnerability of vulnerabilities) {
+    bySeverity[vulnerability.severity] =
+      (bySeverity[vulnerability.severity] || 0) + 1;
+  }
+  return { totalVulnerabilities: vulnerabilities.length, bySeverity };
+};
+
+const getLockfileRegistryPackages = (
+  lockfile: ParsedLockfile
+): Array<{ name: string; version: string }> => {
+  const packages: Array<{ name: string; version: string }> = [];
+  for (const pkg of lockfile.packages.values()) {
+    if (
+      !pkg.local &&
+      classifyResolvedSource(pkg.resolved) === 'registry' &&
+      semver.valid(pkg.version)
+    ) {
+      packages.push({ name: pkg.name, version: pkg.version });
+    }
+  }
+  return packages;
+};
+
+// --- Download History ---
+
+// The range API rejects spans longer than 18 months, so longer ranges are fetched in chunks
+const DOWNLOADS_RANGE_MAX_DAYS = 540;
+const DAY_MS = 86400000;
+// The downloads API has no data before this day
+const DOWNLOADS_EARLIEST_DAY = '2015-01-10';
+
+const formatDay = (date: Date): string => date.toISOString().substring(0, 10);
+
+const parseDay = (day: string): Date => new Date(`${day}T00:00:00Z`);
+
+// Rejects well-formed but impossible dates such as 2024-02-31, which Date rolls over
+const isValidDay = (day: string): boolean => {
+  const date = parseDay(day);
+  return !isNaN(date.getTime()) && formatDay(date) === day;
+};
+
+const getDownloadsRangeApiBaseUrl = (): string => {
+  return registryConfig.downloadsApiBaseUrl.replace(/\/point$/, '/range');
+};
+
+const fetchDownloadRange = async (
+  encodedPackageName: string,
+  start: string,
+  end: string
+): Promise<CachedResponse<Array<{ day: string; downloads: number }>>> => {
+  const chunks: Array<[string, string]> = [];
+  for (
+    let chunkStart = parseDay(
+      start < DOWNLOADS_EARLIEST_DAY ? DOWNLOADS_EARLIEST_DAY : start
+    );
+    chunkStart <= parseDay(end);
+    chunkStart = new Date(
+      chunkStart.getTime() + DOWNLOADS_RANGE_MAX_DAYS * DAY_MS
+    )
+  ) {
+    const chunkEnd = new Date(
+      Math.min(
+        chunkStart.getTime() + (DOWNLOADS_RANGE_MAX_DAYS - 1) * DAY_MS,
+        parseDay(end).getTime()
+      )
+    );
+    chunks.push([formatDay(chunkStart), formatDay(chunkEnd)]);
+  }
+  const limit = createConcurrencyLimiter(DEFAULT_REGISTRY_CONCURRENCY);
+  const responses = await Promise.all(
+    chunks.map(([chunkStart, chunkEnd]) =>
+      limit(async () => {
+        const apiUrl = `${getDownloadsRangeApiBaseUrl()}/${chunkStart}:${chunkEnd}/${encodedPackageName}`;
+        console.error(
+          `[${new Date().toISOString()}] Fetching download history from: ${apiUrl}`
+        );
+        try {
+          return await cachedGet<NpmDownloadsRangeApiResponse>(apiUrl);
+        } catch (error) {
+          const axiosError = error as AxiosError;
+          if (axiosError.response?.status === 404) {
+            throw new NpmApiError(
+              `No download statistics found for '${decodeURIComponent(
+                encodedPackageName
+              )}' between ${chunkStart} and ${chunkEnd}.`,
+              404,
+              'NPM_DOWNLOADS_NOT_FOUND'
+            );
+          }
+          throw toNpmApiError(error, 'download history');
+        }
+      })
+    )
+  );
+  return {
+    data: responses.flatMap(response => response.data.downloads || []),
+    cacheStatus:
+      combineCacheStatuses(responses.map(response => response.cacheStatus)) ||
+      'miss'
+  };
+};
+
+const getPeriodBounds = (
+  day: string,
+  groupBy: DownloadHistoryGrouping
+): { period: string; start: string; end: string } => {
+  const date = parseDay(day);
+  if (groupBy === 'month') {
+    const start = new Date(
+      Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1)
+    );
+    const end = new Date(
+      Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)
+    );
+    return {
+      period: day.substring(0, 7),
+      start: formatDay(start),
+      end: formatDay(end)
+    };
+  }
+  if (groupBy === 'week') {
+    // ISO weeks start on Monday
+    const start = new Date(
+      date.getTime() - ((date.getUTCDay() + 6) % 7) * DAY_MS
+    );
+    const end = new Date(start.getTime() + 6 * DAY_MS);
+    return {
+      period: formatDay(start),
+      start: formatDay(start),
+      end: formatDay(end)
+    };
+  }
+  return { period: day, start: day, end: day };
+};
+
+const calculateGrowthRate = (from: number, to: number): number | undefined => {
+  if (from === 0) {
+    return undefined;
+  }
+  return Math.round(((to - from) / from) * 10000) / 10000;
+};
+
+const buildDownloadHistory = (
+  packageName: string,
+  start: string,
+  end: string,
+  groupBy: DownloadHistoryGrouping,
+  movingAverageWindow: number,
+  days: Array<{ day: string; downloads: number }>
+): Omit<McpDownloadHistoryData, 'source' | 'cache'> => {
+  const series: McpDownloadHistoryPeriod[] = [];
+  for (const { day, downloads } of days) {
+    const bounds = getPeriodBounds(day, groupBy);
+    const current = series[series.length - 1];
+    if (current && current.period === bounds.period) {
+      current.downloads += downloads;
+    } else {
+      series.push({ ...bounds, downloads });
+    }
+  }
+  for (const [index, period] of series.entries()) {
+    if (period.start < start || period.end > end) {
+      period.partial = true;
+    }
+    if (index + 1 >= movingAverageWindow) {
+      const window = series.slice(index + 1 - movingAverageWindow, index + 1);
+      period.movingAverage = Math.round(
+        window.reduce((sum, entry) => sum + entry.downloads, 0) /
+          movingAverageWindow
+      );
+    }
+  }
+
+  const totalDownloads = series.reduce(
+    (sum, period) => sum + period.downloads,
+    0
+  );
+  const complete = series.filter(period => !period.partial);
+  const recentCount = Math.min(3, Math.floor(complete.length / 2));
+  const average = (periods: McpDownloadHistoryPeriod[]) =>
+    periods.reduce((sum, period) => sum + period.downloads, 0) / periods.length;
+  const growthRate =
+    complete.length >= 2
+      ? calculateGrowthRate(
+          complete[0].downloads,
+          complete[complete.length - 1].downloads
+        )
+      : undefined;
+  const recentGrowthRate =
+    recentCount > 0
+      ? calculateGrowthRate(
+          average(complete.slice(-2 * recentCount, -recentCount)),
+          average(complete.slice(-recentCount))
+        )
+      : undefined;
+  let trend: McpDownloadHistoryData['statistics']['trend'] =
+    'insufficient-data';
+  if (recentGrowthRate !== undefined) {
+    trend =
+      recentGrowthRate > 0.1
+        ? 'growing'
+        : recentGrowthRate < -0.1
+        ? 'declining'
+        : 'stable';
+  }
+  const peakPeriods = [...complete]
+    .sort((a, b) => b.downloads - a.downloads)
+    .slice(0, 3)
+    .map(period => ({ period: period.period, downloads: period.downloads }));
+
+  return {
+    package: packageName,
+    start,
+    end,
+    groupBy,
+    totalDownloads,
+    series,
+    statistics: {
+      averagePerPeriod:
+        series.length > 0 ? Math.round(totalDownloads / series.length) : 0,
+      growthRate,
+      recentGrowthRate,
+      trend,
+      peakPeriods
+    }
+  };
+};
+
+const fetchDownloadHistory = async (
+  packageName: string,
+  start: string,
+  end: string,
+  groupBy: DownloadHistoryGrouping,
+  movingAverageWindow: number
+): Promise<McpDownloadHistoryData> => {
+  if (start > end) {
+    throw new Error(`Start date ${start} is after end date ${end}.`);
+  }
+  const { data: days, cacheStatus } = await fetchDownloadRange(
+    encodePackageName(packageName),
+    start,
+    end
+  );
+  return {
+    ...buildDownloadHistory(
+      packageName,
+      start,
+      end,
+      groupBy,
+      movingAverageWindow,
+      days
+    ),
+    source: getDownloadsRangeApiBaseUrl(),
+    cache: cacheStatus
+  };
+};
+
+// --- Package Comparison ---
+
+const getReleaseStatistics = (
+  rawData: NpmRegistryPackageInfo
+): ReleaseStatistics => {
+  const { versions } = transformDataForVersions(rawData, '');
+  const releaseTimes = Object.values(versions)
+    .map(date => new Date(date).getTime())
+    .filter(time => !isNaN(time))
+    .sort((a, b) => a - b);
+  const oneYearAgo = Date.now() - 365 * DAY_MS;
+  const releasesLastYear = releaseTimes.filter(time => time >= oneYearAgo);
+  // Cadence is measured over the last year when there is one, otherwise over the whole history
+  const cadenceTimes =
+    releasesLastYear.length >= 2 ? releasesLastYear : releaseTimes;
+  return {
+    totalReleases: releaseTimes.length,
+    releasesLastYear: releasesLastYear.length,
+    firstReleaseDate:
+      releaseTimes.length > 0
+        ? new Date(releaseTimes[0]).toISOString()
+        : undefined,
+    lastReleaseDate:
+      releaseTimes.length > 0
+        ? new Date(releaseTimes[releaseTimes.length - 1]).toISOString()
+        : undefined,
+    averageDaysBetweenReleases:
+      cadenceTimes.length >= 2
+        ? Math.round(
+            (cadenceTimes[cadenceTimes.length - 1] - cadenceTimes[0]) /
+              DAY_MS /
+              (cadenceTimes.length - 1)
+          )
+        : undefined
+  };
+};
+
+const formatBytes = (bytes?: number): string => {
+  if (bytes === undefined) {
+    return 'n/a';
+  }
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(1)} kB`;
+  }
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+};
+
+const renderComparisonMarkdown = (rows: McpPackageComparisonRow[]): string => {
+  const display = (value?: string | number) =>
+    value === undefined ? 'n/a' : String(value).replace(/\|/g, '\\|');
+  const header =
+    '| Package | Latest | License | Last publish | Releases (12 mo) | Avg days between releases | Maintainers | Dependencies | Unpacked size | Weekly downloads | Open advisories |';
+  const separator = `|${' --- |'.repeat(11)}`;
+  const lines = rows.map(row =>
+    row.error
+      ? `| ${display(row.name)} | ${display(row.error)} |${' |'.repeat(9)}`
+      : `| ${[
+          row.name,
+          row.latestVersion,
+          row.license,
+          row.lastPublishDate?.substring(0, 10),
+          row.releasesLastYear,
+          row.averageDaysBetweenReleases,
+          row.maintainerCount,
+          row.dependencyCount,
+          formatBytes(row.unpackedSize),
+          row.weeklyDownloads?.toLocaleString('en-US'),
+          row.openAdvisories
+        ]
+          .map(display)
+          .join(' | ')} |`
+  );
+  return [header, separator, ...lines].join('\n');
+};
+
+const comparePackages = async (
+  packageNames: string[]
+): Promise<McpPackageComparisonData> => {
+  const notes: string[] = [];
+  const rows = await Promise.all(
+    packageNames.map(async (packageName): Promise<McpPackageComparisonRow> => {
+      const encodedPackageName = encodePackageName(packageName);
+      const [packageResult, downloadsResult] = await Promise.allSettled([
+        fetchPackageData(encodedPackageName),
+        fetchPackageDownloads(encodedPackageName, 'last-week')
+      ]);
+      if (packageResult.status === 'rejected') {
+        return {
+          name: packageName,
+          error: (packageResult.reason as Error).message
+        };
+      }
+      const rawData = packageResult.value.data;
+      const details = transformDataForDetails(
+        rawData,
+        getPackageSourceUrl(packageName)
+      );
+      const latestManifest = rawData.versions?.[details.latestVersion];
+      const releaseStatistics = getReleaseStatistics(rawData);
+      return {
+        name: details.name,
+        latestVersion: details.latestVersion,
+        license: details.license,
+        lastPublishDate: releaseStatistics.lastReleaseDate,
+        releasesLastYear: releaseStatistics.releasesLastYear,
+        averageDaysBetweenReleases:
+          releaseStatistics.averageDaysBetweenReleases,
+        maintainerCount: rawData.maintainers?.length,
+        dependencyCount: latestManifest
+          ? Object.keys(latestManifest.dependencies || {}).length
+          : undefined,
+        unpackedSize: latestManifest?.dist?.unpackedSize,
+        weeklyDownloads:
+          downloadsResult.status === 'fulfilled'
+            ? downloadsResult.value.downloads['last-week']
+            : undefined
+      };
+    })
+  );
+
+  const auditable = rows.filter(
+    row => !row.error && row.latestVersion && semver.valid(row.latestVersion)
+  );
+  if (auditable.length > 0) {
+    try {
+      const { vulnerabilities } = await fetchBulkAdvisories(
+        auditable.map(row => ({ name: row.name, version: row.latestVersion! }))
+      );
+      for (const row of auditable) {
+        row.openAdvisories = vulnerabilities.filter(
+          vulnerability => vulnerability.package === row.name
+        ).length;
+      }
+    } catch (error) {
+      notes.push(
+        `Advisory counts are unavailable: ${(error as Error).message}`
+      );
+    }
+  }
+  if (rows.some(row => !row.error && row.weeklyDownloads === undefined)) {
+    notes.push('Weekly downloads could not be fetched for some packages.');
+  }
+  notes.push(
+    'Dependency count, unpacked size and open advisories refer to the latest version.'
+  );
+  return { comparedAt: new Date().toISOString(), packages: rows, notes };
+};
+
+// --- Resources ---
+
+const PACKAGE_RESOURCE_PREFIX = 'npm://package/';
+const PROJECT_RESOURCE_PREFIX = 'project://';
+
+// At least one second between checks, so a 0 cannot turn polling into a busy loop
+const RESOURCE_POLL_INTERVAL_MS =
+  Math.max(1, readNumberEnv('NPMJS_MCP_SUBSCRIPTION_POLL_SECONDS', 300)) * 1000;
+
+/**
+ * Projects exposed as listable resources: NPMJS_MCP_PROJECT_DIRS (separated
+ * like PATH), or the single project directory used for .npmrc lookup.
+ */
+const getResourceProjectDirs = (): string[] => {
+  const configured = process.env.NPMJS_MCP_PROJECT_DIRS
+    ? process.env.NPMJS_MCP_PROJECT_DIRS.split(path.delimiter)
+    : [process.env.NPMJS_MCP_PROJECT_DIR || process.cwd()];
+  return configured
+    .filter(dir => dir.trim() !== '')
+    .map(dir => path.resolve(dir))
+    .filter(dir => fs.existsSync(path.join(dir, 'package.json')));
+};
+
+// Absolute paths contain '/', so they are percent-encoded in project URIs
+const toProjectAuditResourceUri = (projectPath: string): string =>
+  `${PROJECT_RESOURCE_PREFIX}${encodeURIComponent(projectPath)}/audit`;
+
+const getResourceVariable = (
+  variables: { [name: string]: string | string[] },
+  name: string
+): string => {
+  const value = variables[name];
+  const decoded = decodeURIComponent(Array.isArray(value) ? value[0] : value);
+  if (name === 'name' && decoded.startsWith('@') && !decoded.includes('/')) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Scoped package names must be percent-encoded in resource URIs (e.g. ${PACKAGE_RESOURCE_PREFIX}%40scope%2Fname).`
+    );
+  }
+  return decoded;
+};
+
+const toJsonResource = (uri: URL, data: unknown): ReadResourceResult => ({
+  contents: [
+    {
+      uri: uri.href,
+      mimeType: 'application/json',
+      text: JSON.stringify(data)
+    }
+  ]
+});
+
+const auditProjectDependencies = async (
+  projectPath: string
+): Promise<McpPackageAuditResult> => {
+  const lockfile = readProjectLockfile(projectPath);
+  const packages = getLockfileRegistryPackages(lockfile);
+  const { vulnerabilities, sources } = await fetchBulkAdvisories(packages);
+  await Promise.all([
+    addPatchedVersions(vulnerabilities),
+    addCveIds(vulnerabilities)
+  ]);
+  return {
+    auditRunDate: new Date().toISOString(),
+    packagesAudited: new Set(packages.map(pkg => `${pkg.name}@${pkg.version}`))
+      .size,
+    lockfile: lockfile.lockfilePath,
+    summary: summarizeAdvisories(vulnerabilities),
+    vulnerabilities,
+    source: sources.join(', ')
+  };
+};
+
+/**
+ * A value that changes whenever a subscribed resource has changed: the
+ * dist-tags and version list for packages, the lockfile mtime for projects.
+ */
+const getResourceFingerprint = async (uri: string): Promise<string> => {
+  if (uri.startsWith(PACKAGE_RESOURCE_PREFIX)) {
+    const packageName = decodeURIComponent(
+      uri.substring(PACKAGE_RESOURCE_PREFIX.length).split('/')[0]
+    );
+    const { data } = await fetchPackageData(encodePackageName(packageName));
+    return JSON.stringify([
+      data['dist-tags'],
+      Object.keys(data.versions || {}).length
+    ]);
+  }
+  const projectPath = decodeURIComponent(
+    uri.substring(PROJECT_RESOURCE_PREFIX.length).replace(/\/audit$/, '')
+  );
+  const lockfilePath = LOCKFILE_NAMES.map(candidate =>
+    path.join(projectPath, candidate.file)
+  ).find(candidate => fs.existsSync(candidate));
+  return lockfilePath ? String(fs.statSync(lockfilePath).mtimeMs) : '';
+};
+
+// --- Package Tarballs ---
+
+// Capped so the unpacked limit below stays within what zlib can allocate
+const TARBALL_MAX_BYTES = Math.min(
+  readNumberEnv('NPMJS_MCP_TARBALL_MAX_BYTES', 50 * 1024 * 1024),
+  Math.floor(kMaxLength / 4)
+);
+
+interface TarballFile {
+  // Relative to the package root, i.e. without the leading 'package/'
+  path: string;
+  size: number;
+  contents?: Buffer;
+}
+
+interface TarballContents {
+  files: TarballFile[];
+  // Entries whose path would escape the package directory
+  rejectedEntries: string[];
+}
+
+interface TarballIntegrity {
+  algorithm?: string;
+  expected?: string;
+  verified: boolean;
+}
+
+const SRI_ALGORITHMS = ['sha512', 'sha384', 'sha256', 'sha1'];
+
+/**
+ * Checks a tarball against dist.integrity (the strongest supported SRI hash)
+ * or, for old packages, the hex sha1 in dist.shasum.
+ */
+const verifyTarballIntegrity = (
+  tarball: Buffer,
+  dist: NpmVersionDist
+): TarballIntegrity => {
+  const sriHashes = (dist.integrity || '')
+    .split(/\s+/)
+    .map(entry => /^(sha\d+)-(.+)$/.exec(entry))
+    .filter((match): match is RegExpExecArray => !!match)
+    .filter(match => SRI_ALGORITHMS.includes(match[1]))
+    .sort(
+      (a, b) => SRI_ALGORITHMS.indexOf(a[1]) - SRI_ALGORITHMS.indexOf(b[1])
+    );
+  let expected: {
+    algorithm: string;
+    digest: string;
+    encoding: 'base64' | 'hex';
+  };
+  if (sriHashes.length > 0) {
+    expected = {
+      algorithm: sriHashes[0][1],
+      digest: sriHashes[0][2],
+      encoding: 'base64'
+    };
+  } else if (dist.shasum) {
+    expected = { algorithm: 'sha1', digest: dist.shasum, encoding: 'hex' };
+  } else {
+    return { verified: false };
+  }
+  const actual = crypto
+    .createHash(expected.algorithm)
+    .update(tarball)
+    .digest(expected.encoding);
+  if (actual !== expected.digest) {
+    throw new NpmApiError(
+      `Integrity check failed for ${dist.tarball}: expected ${expected.algorithm} ${expected.digest}, got ${actual}.`,
+      undefined,
+      'NPM_INTEGRITY_MISMATCH'
+    );
+  }
+  return {
+    algorithm: expected.algorithm,
+    expected: expected.digest,
+    verified: true
+  };
+};
+
+const fetchPackageTarball = async (
+  dist: NpmVersionDist
+): Promise<{ tarball: Buffer; integrity: TarballIntegrity }> => {
+  console.error(
+    `[${new Date().toISOString()}] Fetching package tarball from: ${
+      dist.tarball
+    }`
+  );
+  let tarball: Buffer;
+  try {
+    const response = await axios.get<ArrayBuffer>(dist.tarball, {
+      headers: getRegistryRequestHeaders(dist.tarball),
+      responseType: 'arraybuffer',
+      maxContentLength: TARBALL_MAX_BYTES
+    });
+    tarball = Buffer.from(response.data);
+  } catch (error) {
+    throw toNpmApiError(error, `tarball ${dist.tarball}`);
+  }
+  return { tarball, integrity: verifyTarballIntegrity(tarball, dist) };
+};
+
+// Checked after the leading segment is stripped, so 'package//etc/passwd' is caught
+const isSafeTarballPath = (filePath: string): boolean =>
+  filePath !== '' &&
+  !/^[\\/]/.test(filePath) &&
+  !/^[a-zA-Z]:/.test(filePath) &&
+  !filePath.split(/[\\/]/).includes('..');
+
+const readTarString = (block: Buffer, offset: number, length: number) => {
+  const raw = block.subarray(offset, offset + length);
+  const end = raw.indexOf(0);
+  return raw.subarray(0, end === -1 ? raw.length : end).toString('utf-8');
+};
+
+/**
+ * Lists the files of a gzipped npm tarball in memory. Contents are only kept
+ * for files accepted by shouldRead, so large packages can be listed cheaply.
+ * Nothing is written to disk, but entries that would escape the package
+ * directory on extraction are still rejected rather than listed.
+ */
+const readTarballFiles = (
+  tarball: Buffer,
+  shouldRead: (filePath: string) => boolean = () => false
+): TarballContents => {
+  const archive = zlib.gunzipSync(tarball, {
+    maxOutputLength: TARBALL_MAX_BYTES * 4
+  });
+  const files: TarballFile[] = [];
+  const rejectedEntries: string[] = [];
+  let offset = 0;
+  let longName: string | undefined;
+  while (offset + 512 <= archive.length) {
+    const header = archive.subarray(offset, offset + 512);
+    if (header.every(byte => byte === 0)) {
+      break;
+    }
+    const size = parseInt(readTarString(header, 124, 12).trim() || '0', 8);
+    const type = String.fromCharCode(header[156] || 48);
+    const dataStart = offset + 512;
+    const data = archive.subarray(dataStart, dataStart + size);
+    offset = dataStart + Math.ceil(size / 512) * 512;
+    if (type === 'L') {
+      longName = readTarString(data, 0, data.length);
+      continue;
+    }
+    if (type === 'x') {
+      const paxPath = /(?:^|\n)\d+ path=([^\n]*)\n/.exec(
+        data.toString('utf-8')
+      );
+      longName = paxPath ? paxPath[1] : longName;
+      continue;
+    }
+    const prefix =
+      readTarString(header, 257, 6) === 'ustar'
+        ? readTarString(header, 345, 155)
+        : '';
+    const name =
+      longName || (prefix ? `${prefix}/` : '') + readTarString(header, 0, 100);
+    longName = undefined;
+    if (type !== '0' && type !== '\0') {
+      continue;
+    }
+    // npm strips the first path segment on install, whatever its name
+    const filePath = name.split('/').slice(1).join('/');
+    if (!isSafeTarballPath(filePath)) {
+      rejectedEntries.push(name);
+      continue;
+    }
+    files.push({
+      path: filePath,
+      size,
+      contents: shouldRead(filePath) ? Buffer.from(data) : undefined
+    });
+  }
+  return { files, rejectedEntries };
+};
+
+// --- Package Documentation ---
+
+const README_FILE_PATTERN = /^readme(\.(md|markdown|txt|rst))?$/i;
+const CHANGELOG_FILE_PATTERN =
+  /^(changelog|changes|history|news|releases)(\.(md|markdown|txt|rst))?$/i;
+const CHANGELOG_REPOSITORY_FILES = ['CHANGELOG.md', 'HISTORY.md', 'CHANGES.md'];
+const DEFAULT_README_MAX_LENGTH = 20000;
+
+// The registry stores this placeholder when a package was published without a README
+const isMissingReadme = (readme?: string): boolean =>
+  !readme || readme.trim() === '' || readme.startsWith('ERROR: No README');
+
+interface MarkdownHeading {
+  line: number;
+  // First line after the heading (setext headings span two lines)
+  contentLine: number;
+  level: number;
+  title: string;
+}
+
+const getMarkdownHeadings = (lines: string[]): MarkdownHeading[] => {
+  const headings: MarkdownHeading[] = [];
+  let inFence = false;
+  lines.forEach((line, index) => {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+      return;
+    }
+    const match = inFence ? null : /^(#{1,6})\s+(.+?)\s*#*\s*$/.exec(line);
+    if (match) {
+      headings.push({
+        line: index,
+        contentLine: index + 1,
+        level: match[1].length,
+        title: match[2]
+      });
+      return;
+    }
+    // Setext headings: a line underlined with === or ---
+    if (
+      !inFence &&
+      index > 0 &&
+      /^(=+|-+)\s*$/.test(line) &&
+      lines[index - 1].trim() !== ''
+    ) {
+      headings.push({
+        line: index - 1,
+        contentLine: index + 1,
+        level: line.startsWith('=') ? 1 : 2,
+        title: lines[index - 1].trim()
+      });
+    }
+  });
+  return headings;
+};
+
+// Drops links, images and inline formatting so headings compare as plain text
+const toPlainHeading = (title: string): string =>
+  title
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/[`*_~]/g, '')
+    .trim();
+
+const extractMarkdownSection = (
+  markdown: string,
+  sectionName: string
+): { title: string; content: string } | undefined => {
+  const lines = markdown.split(/\r?\n/);
+  const headings = getMarkdownHeadings(lines);
+  const wanted = sectionName.trim().toLowerCase();
+  const titles = headings.map(heading =>
+    toPlainHeading(heading.title).toLowerCase()
+  );
+  // Prefer an exact heading match, then the first heading containing the name
+  let matchIndex = titles.indexOf(wanted);
+  if (matchIndex === -1) {
+    matchIndex = titles.findIndex(title => title.includes(wanted));
+  }
+  if (matchIndex === -1) {
+    return undefined;
+  }
+  const heading = headings[matchIndex];
+  const next = headings
+    .slice(matchIndex + 1)
+    .find(candidate => candidate.level <= heading.level);
+  return {
+    title: toPlainHeading(heading.title),
+    content: lines
+      .slice(heading.line, next ? next.line : lines.length)
+      .join('\n')
+      .trim()
+  };
+};
+
+const VERSION_IN_TEXT_PATTERN = /\bv?(\d+\.\d+\.\d+(?:-[0-9A-Za-z.-]+)?)\b/;
+
+/**
+ * Splits a changelog into one entry per released version. Markdown headings
+ * mentioning a version are used when present; otherwise lines starting with a
+ * version (History.md style, e.g. "1.2.3 / 2020-01-01").
+ */
+const parseChangelogEntries = (changelog: string): McpChangelogEntry[] => {
+  const lines = changelog.split(/\r?\n/);
+  let starts: MarkdownHeading[] = getMarkdownHeadings(lines).filter(heading =>
+    VERSION_IN_TEXT_PATTERN.test(heading.title)
+  );
+  if (starts.length === 0) {
+    starts = lines
+      .map((line, index) => ({
+        line: index,
+        contentLine: index + 1,
+        level: 1,
+        title: line.trim()
+      }))
+      .filter(heading => /^v?\d+\.\d+\.\d+/.test(heading.title));
+  }
+  return starts.map((start, i) => ({
+    version: (VERSION_IN_TEXT_PATTERN.exec(start.title) as RegExpExecArray)[1],
+    title: toPlainHeading(start.title),
+    body: lines
+      .slice(
+        start.contentLine,
+        i + 1 < starts.length ? starts[i + 1].line : lines.length
+      )
+      .join('\n')
+      .trim()
+  }));
+};
+
+const selectChangelogEntries = (
+  entries: McpChangelogEntry[],
+  fromVersion: string,
+  toVersion: string,
+  maxLength: number
+): { entries: McpChangelogEntry[]; truncated: boolean } => {
+  const selected = entries.filter(
+    entry =>
+      semver.valid(entry.version) &&
+      semver.gt(entry.version, fromVersion) &&
+      semver.lte(entry.version, toVersion)
+  );
+  let remaining = maxLength;
+  const kept: McpChangelogEntry[] = [];
+  for (const entry of selected) {
+    if (remaining <= 0) {
+      return { entries: kept, truncated: true };
+    }
+    const body =
+      entry.body.length > remaining
+        ? `${entry.body.substring(0, remaining)}…`
+        : entry.body;
+    kept.push({ ...entry, body });
+    remaining -= entry.body.length;
+  }
+  return { entries: kept, truncated: remaining < 0 };
+};
+
+const parseGitHubRepository = (
+  repository?: NpmRegistryPackageInfo['repository'] | string
+): { owner: string; repo: string; directory?: string } | undefined => {
+  const url = typeof repository === 'string' ? repository : repository?.url;
+  if (!url) {
+    return undefined;
+  }
+  const match =
+    /github\.com[/:]([^/]+)\/([^/#]+?)(?:\.git)?(?:[/#].*)?$/.exec(url) ||
+    /^(?:github:)?([\w.-]+)\/([\w.-]+)$/.exec(url);
+  if (!match) {
+    return undefined;
+  }
+  return {
+    owner: match[1],
+    repo: match[2],
+    directory: typeof repository === 'object' ? repository.directory : undefined
+  };
+};
+
+const getGitHubRequestHeaders = (): { [header: string]: string } =>
+  process.env.GITHUB_TOKEN
+    ? { Authorization: `Bearer ${process.env.GITHUB_TOKEN}` }
+    : {};
+
+const fetchRepositoryChangelog = async (
+  repository: NpmRegistryPackageInfo['repository']
+): Promise<{ text: string; location: string } | undefined> => {
+  const github = parseGitHubRepository(repository);
+  if (!github) {
+    return undefined;
+  }
+  const directories = github.directory ? [`${github.directory}/`, ''] : [''];
+  for (const directory of directories) {
+    for (const file of CHANGELOG_REPOSITORY_FILES) {
+      const url = `https://raw.githubusercontent.com/${github.owner}/${github.repo}/HEAD/${directory}${file}`;
+      try {
+        const { data } = await cachedGet<string>(url, {
+          ...getGitHubRequestHeaders()
+        });
+        if (typeof data === 'string' && data.trim() !== '') {
+          return { text: data, location: url };
+        }
+      } catch (error) {
+        console.error(
+          `[${new Date().toISOString()}] No changelog at ${url}: ${
+            (error as Error).message
+          }`
+        );
+      }
+    }
+  }
+  return undefined;
+};
+
+const fetchGitHubReleaseEntries = async (
+  repository: NpmRegistryPackageInfo['repository']
+): Promise<{ entries: McpChangelogEntry[]; location: string } | undefined> => {
+  const github = parseGitHubRepository(repository);
+  if (!github) {
+    return undefined;
+  }
+  const url = `https://api.github.com/repos/${github.owner}/${github.repo}/releases?per_page=100`;
+  try {
+    const { data } = await cachedGet<
+      Array<{ tag_name: string; name?: string; body?: string }>
+    >(url, {
+      Accept: 'application/vnd.github+json',
+      ...getGitHubRequestHeaders()
+    });
+    const entries: McpChangelogEntry[] = [];
+    for (const release of data) {
+      // Monorepo tags look like 'pkg@1.2.3'; plain tags like 'v1.2.3'
+      const match = VERSION_IN_TEXT_PATTERN.exec(release.tag_name);
+      if (match) {
+        entries.push({
+          version: match[1],
+          title: release.name || release.tag_name,
+          body: (release.body || '').trim()
+        });
+      }
+    }
+    return entries.length > 0 ? { entries, location: url } : undefined;
+  } catch (error) {
+    console.error(
+      `[${new Date().toISOString()}] Failed to fetch GitHub releases from ${url}: ${
+        (error as Error).message
+      }`
+    );
+    return undefined;
+  }
+};
+
+/**
+ * Looks for release notes between two versions: a changelog file in the
+ * target version's tarball, then one in the linked GitHub repository, then
+ * the repository's GitHub releases.
+ */
+const getChangelogBetween = async (
+  rawData: NpmRegistryPackageInfo,
+  fromVersion: string,
+  toVersion: string,
+  tarballFiles: TarballFile[] | undefined,
+  maxLength: number
+): Promise<McpChangelogData> => {
+  const result: McpChangelogData = {
+    fromVersion,
+    toVersion,
+    entries: [],
+    truncated: false
+  };
+  const tarballChangelog = tarballFiles?.find(
+    file => file.contents && CHANGELOG_FILE_PATTERN.test(file.path)
+  );
+  const candidates: Array<
+    () => Promise<
+      | (Pick<McpChangelogData, 'source' | 'location'> & {
+          entries: McpChangelogEntry[];
+        })
+      | undefined
+    >
+  > = [
+    async () =>
+      tarballChangelog && {
+        source: 'tarball',
+        location: tarballChangelog.path,
+        entries: parseChangelogEntries(
+          (tarballChangelog.contents as Buffer).toString('utf-8')
+        )
+      },
+    async () => {
+      const changelog = await fetchRepositoryChangelog(rawData.repository);
+      return (
+        changelog && {
+          source: 'repository',
+          location: changelog.location,
+          entries: parseChangelogEntries(changelog.text)
+        }
+      );
+    },
+    async () => {
+      const releases = await fetchGitHubReleaseEntries(rawData.repository);
+      return releases && { source: 'github-releases', ...releases };
+    }
+  ];
+  for (const candidate of candidates) {
+    const found = await candidate();
+    if (!found) {
+      continue;
+    }
+    const selected = selectChangelogEntries(
+      found.entries,
+      fromVersion,
+      toVersion,
+      maxLength
+    );
+    // A changelog that stops before the requested range (e.g. "see GitHub
+    // releases") is not an answer; keep looking.
+    if (selected.entries.length === 0) {
+      continue;
+    }
+    return {
+      ...result,
+      source: found.source,
+      location: found.location,
+      ...selected
+    };
+  }
+  return {
+    ...result,
+    message: `No changelog entries between ${fromVersion} and ${toVersion} were found in the package tarball or its repository.`
+  };
+};
+
+const getPackageReadme = async (
+  packageName: string,
+  options: {
+    version?: string;
+    section?: string;
+    maxLength?: number;
+    includeReadme?: boolean;
+    sinceVersion?: string;
+  }
+): Promise<McpReadmeData> => {
+  const { data: rawData, cacheStatus } = await fetchPackageData(
+    encodePackageName(packageName)
+  );
+  const { version } = resolvePackageVersion(rawData, options.version);
+  const manifest = rawData.versions?.[version];
+  const maxLength = options.maxLength ?? DEFAULT_README_MAX_LENGTH;
+  const includeReadme = options.includeReadme ?? true;
+  const fromVersion = options.sinceVersion
+    ? resolvePackageVersion(rawData, options.sinceVersion).version
+    : undefined;
+
+  // The packument's top-level README belongs to the latest version
+  let readme: string | undefined;
+  let readmeSource: McpReadmeData['readmeSource'];
+  let readmeFilename: string | undefined;
+  if (
+    version === rawData['dist-tags'].latest &&
+    !isMissingReadme(rawData.readme)
+  ) {
+    readme = rawData.readme;
+    readmeSource = 'registry';
+    readmeFilename = rawData.readmeFilename;
+  } else if (!isMissingReadme(manifest?.readme)) {
+    readme = manifest?.readme;
+    readmeSource = 'registry';
+    readmeFilename = manifest?.readmeFilename;
+  }
+
+  let tarballFiles: TarballFile[] | undefined;
+  if ((includeReadme && !readme) || fromVersion) {
+    if (!manifest?.dist?.tarball) {
+      throw new NpmApiError(
+        `No tarball URL for ${packageName}@${version}.`,
+        404,
+        'NPM_VERSION_NOT_FOUND'
+      );
+    }
+    const isRootFile = (filePath: string) =>
+      !filePath.includes('/') &&
+      (README_FILE_PATTERN.test(filePath) ||
+        CHANGELOG_FILE_PATTERN.test(filePath));
+    const { tarball } = await fetchPackageTarball(manifest.dist);
+    tarballFiles = readTarballFiles(tarball, isRootFile).files;
+    const readmeFile = tarballFiles.find(
+      file => file.contents && README_FILE_PATTERN.test(file.path)
+    );
+    if (!readme && readmeFile) {
+      readme = (readmeFile.contents as Buffer).toString('utf-8');
+      readmeSource = 'tarball';
+      readmeFilename = readmeFile.path;
+    }
+  }
+
+  const resultData: McpReadmeData = {
+    name: rawData.name,
+    version,
+    readmeSource,
+    readmeFilename,
+    sections: readme
+      ? getMarkdownHeadings(readme.split(/\r?\n/)).map(heading =>
+          toPlainHeading(heading.title)
+        )
+      : [],
+    truncated: false,
+    source: getPackageSourceUrl(packageName),
+    cache: cacheStatus
+  };
+  if (includeReadme && readme) {
+    let text = readme;
+    if (options.section) {
+      const section = extractMarkdownSection(readme, options.section);
+      if (!section) {
+        throw new Error(
+          `Section '${
+            options.section
+          }' not found in the README of ${packageName}@${version}. Available sections: ${resultData.sections.join(
+            ', '
+          )}.`
+        );
+      }
+      resultData.section = section.title;
+      text = section.content;
+    }
+    resultData.readmeLength = text.length;
+    resultData.truncated = text.length > maxLength;
+    resultData.readme = resultData.truncated
+      ? `${text.substring(0, maxLength)}…`
+      : text;
+  }
+  if (fromVersion) {
+    resultData.changelog = await getChangelogBetween(
+      rawData,
+      fromVersion,
+      version,
+      tarballFiles,
+      maxLength
+    );
+  }
+  return resultData;
+};
+
+// --- Tarball Inspection ---
+
+const DEFAULT_TARBALL_FILE_MAX_BYTES = 64 * 1024;
+const TARBALL_READ_MAX_TOTAL_BYTES = 512 * 1024;
+
+// Accepts 'dist/index.js', './dist/index.js' and 'package/dist/index.js'
+const normalizeTarballPath = (filePath: string): string =>
+  filePath
+    .trim()
+    .replace(/^\.?\//, '')
+    .replace(/^package\//, '');
+
+const getFileExtension = (filePath: string): string => {
+  const baseName = path.posix.basename(filePath);
+  // Keep compound extensions that matter for packages, like .d.ts or .min.js
+  const match = /(\.d\.[cm]?ts|\.min\.js|\.[^.]+)$/.exec(baseName);
+  return match && match.index > 0 ? match[1].toLowerCase() : '(none)';
+};
+
+const buildTarballTree = (
+  files: Array<{ path: string; size: number }>
+): McpTarballTreeNode => {
+  const root: McpTarballTreeNode = {
+    name: '.',
+    type: 'directory',
+    size: 0,
+    fileCount: 0,
+    children: []
+  };
+  for (const file of files) {
+    const segments = file.path.split('/');
+    let node = root;
+    for (const segment of segments.slice(0, -1)) {
+      node.size += file.size;
+      node.fileCount = (node.fileCount || 0) + 1;
+      let child = node.children?.find(
+        candidate =>
+          candidate.name === segment && candidate.type === 'directory'
+      );
+      if (!child) {
+        child = {
+          name: segment,
+          type: 'directory',
+          size: 0,
+          fileCount: 0,
+          children: []
+        };
+        node.children?.push(child);
+      }
+      node = child;
+    }
+    node.size += file.size;
+    node.fileCount = (node.fileCount || 0) + 1;
+    node.children?.push({
+      name: segments[segments.length - 1],
+      type: 'file',
+      size: file.size
+    });
+  }
+  return root;
+};
+
+const toTarballFileContent = (
+  file: TarballFile,
+  maxBytes: number
+): McpTarballFileContent => {
+  const contents = (file.contents as Buffer).subarray(0, maxBytes);
+  // Same heuristic as git: a NUL byte near the start means binary
+  const isBinary = contents.subarray(0, 8000).includes(0);
+  return {
+    path: file.path,
+    size: file.size,
+    encoding: isBinary ? 'base64' : 'utf-8',
+    content: contents.toString(isBinary ? 'base64' : 'utf-8'),
+    truncated: file.size > maxBytes
+  };
+};
+
+const inspectPackageTarball = async (
+  packageName: string,
+  options: {
+    version?: string;
+    format?: 'tree' | 'flat';
+    pathPrefix?: string;
+    readFiles?: string[];
+    maxBytesPerFile?: number;
+  }
+): Promise<McpTarballInspectionData> => {
+  const { data: rawData, cacheStatus } = await fetchPackageData(
+    encodePackageName(packageName)
+  );
+  const { version } = resolvePackageVersion(rawData, options.version);
+  const dist = rawData.versions?.[version]?.dist;
+  if (!dist?.tarball) {
+    throw new NpmApiError(
+      `No tarball URL for ${packageName}@${version}.`,
+      404,
+      'NPM_VERSION_NOT_FOUND'
+    );
+  }
+  const requestedFiles = new Set(
+    (options.readFiles || []).map(normalizeTarballPath)
+  );
+  const { tarball, integrity } = await fetchPackageTarball(dist);
+  const { files, rejectedEntries } = readTarballFiles(tarball, filePath =>
+    requestedFiles.has(filePath)
+  );
+
+  const filesByExtension: McpTarballInspectionData['filesByExtension'] = {};
+  for (const file of files) {
+    const extension = getFileExtension(file.path);
+    filesByExtension[extension] = filesByExtension[extension] || {
+      count: 0,
+      size: 0
+    };
+    filesByExtension[extension].count++;
+    filesByExtension[extension].size += file.size;
+  }
+  const prefix = options.pathPrefix
+    ? normalizeTarballPath(options.pathPrefix)
+    : '';
+  const listed = files
+    .filter(file => file.path.startsWith(prefix))
+    .map(file => ({ path: file.path, size: file.size }))
+    .sort((a, b) => a.path.localeCompare(b.path));
+
+  const resultData: McpTarballInspectionData = {
+    name: rawData.name,
+    version,
+    tarball: dist.tarball,
+    tarballSize: tarball.length,
+    unpackedSize: files.reduce((total, file) => total + file.size, 0),
+    fileCount: files.length,
+    integrity,
+    filesByExtension,
+    source: getPackageSourceUrl(packageName),
+    cache: cacheStatus
+  };
+  if ((options.format || 'tree') === 'tree') {
+    resultData.tree = buildTarballTree(listed);
+  } else {
+    resultData.files = listed;
+  }
+  if (requestedFiles.size > 0) {
+    const maxBytesPerFile =
+      options.maxBytesPerFile ?? DEFAULT_TARBALL_FILE_MAX_BYTES;
+    let remaining = TARBALL_READ_MAX_TOTAL_BYTES;
+    resultData.fileContents = [];
+    for (const filePath of requestedFiles) {
+      const file = files.find(candidate => candidate.path === filePath);
+      if (!file?.contents) {
+        continue;
+      }
+      const content = toTarballFileContent(
+        file,
+        Math.max(0, Math.min(maxBytesPerFile, remaining))
+      );
+      remaining -= Math.min(file.size, maxBytesPerFile);
+      resultData.fileContents.push(content);
+    }
+    const missingFiles = Array.from(requestedFiles).filter(
+      filePath => !files.some(file => file.path === filePath)
+    );
+    if (missingFiles.length > 0) {
+      resultData.missingFiles = missingFiles;
+    }
+  }
+  if (rejectedEntries.length > 0) {
+    resultData.rejectedEntries = rejectedEntries;
+  }
+  return resultData;
+};
+
+// --- Compatibility Analysis ---
+
+const EDGE_RUNTIME_CONDITIONS = [
+  'worker',
+  'workerd',
+  'edge-light',
+  'deno',
+  'bun',
+  'netlify',
+  'react-native'
+];
+
+interface ExportTarget {
+  subpath: string;
+  conditions: string[];
+  target: string;
+}
+
+/**
+ * Flattens package.json "exports" into one entry per target file, with the
+ * subpath it is exported as and the conditions leading to it.
+ */
+const flattenPackageExports = (exportsField: unknown): ExportTarget[] => {
+  const targets: ExportTarget[] = [];
+  const walk = (value: unknown, subpath: string, conditions: string[]) => {
+    if (typeof value === 'string') {
+      targets.push({ subpath, conditions, target: value });
+    } else if (Array.isArray(value)) {
+      value.forEach(fallback => walk(fallback, subpath, conditions));
+    } else if (value && typeof value === 'object') {
+      for (const [key, nested] of Object.entries(value)) {
+        if (key.startsWith('.')) {
+          walk(nested, key, conditions);
+        } else {
+          walk(nested, subpath, [...conditions, key]);
+        }
+      }
+    }
+  };
+  walk(exportsField, '.', []);
+  return targets;
+};
+
+const getEntryFormat = (
+  file: string,
+  packageType: 'module' | 'commonjs'
+): 'esm' | 'cjs' | undefined => {
+  if (/\.mjs$/.test(file)) {
+    return 'esm';
+  }
+  if (/\.cjs$/.test(file)) {
+    return 'cjs';
+  }
+  // Extensionless entries like "main": "./index" resolve to .js
+  if (/\.js$/.test(file) || !/\.[^/]+$/.test(file)) {
+    return packageType === 'module' ? 'esm' : 'cjs';
+  }
+  return undefined;
+};
+
+const getDefinitelyTypedName = (packageName: string): string =>
+  packageName.startsWith('@')
+    ? `@types/${packageName.substring(1).replace('/', '__')}`
+    : `@types/${packageName}`;
+
+// @types versions track the major.minor of the library they describe
+const findDefinitelyTypedPackage = async (
+  packageName: string,
+  version: string
+): Promise<McpTypesSupport['definitelyTyped'] | undefined> => {
+  const typesName = getDefinitelyTypedName(packageName);
+  let rawData: NpmRegistryPackageInfo;
+  try {
+    rawData = (await fetchPackageData(encodePackageName(typesName))).data;
+  } catch (error) {
+    if ((error as NpmApiError).statusCode === 404) {
+      return undefined;
+    }
+    throw error;
+  }
+  const versions = Object.keys(rawData.versions || {});
+  const parsed = semver.parse(version);
+  const matchingVersion = parsed
+    ? semver.maxSatisfying(versions, `~${parsed.major}.${parsed.minor}.0`) ||
+      semver.maxSatisfying(versions, `^${parsed.major}.0.0`) ||
+      undefined
+    : undefined;
+  const latestVersion = rawData['dist-tags']?.latest;
+  return {
+    name: typesName,
+    latestVersion,
+    matchingVersion,
+    deprecated: rawData.versions?.[latestVersion]?.deprecated || undefined
+  };
+};
+
+const analyzePackageCompatibility = async (
+  packageName: string,
+  versionSpec?: string
+): Promise<McpCompatibilityData> => {
+  const { data: rawData, cacheStatus } = await fetchPackageData(
+    encodePackageName(packageName)
+  );
+  const { version } = resolvePackageVersion(rawData, versionSpec);
+  const manifest = getVersionManifest(rawData, version);
+  const packageType = manifest.type === 'module' ? 'module' : 'commonjs';
+  const exportTargets =
+    manifest.exports !== undefined
+      ? flattenPackageExports(manifest.exports)
+      : [];
+  const exportsConditions = Array.from(
+    new Set(exportTargets.flatMap(target => target.conditions))
+  ).sort();
+
+  let nativeEsm = false;
+  let commonJs = false;
+  if (exportTargets.length > 0) {
+    // With "exports", Node ignores "main" for every importer that supports it
+    for (const target of exportTargets) {
+      if (target.conditions.includes('types')) {
+        continue;
+      }
+      const format = getEntryFormat(target.target, packageType);
+      nativeEsm = nativeEsm || format === 'esm';
+      commonJs = commonJs || format === 'cjs';
+    }
+  } else {
+    const format = getEntryFormat(manifest.main || 'index.js', packageType);
+    nativeEsm = format === 'esm';
+    commonJs = format === 'cjs';
+  }
+  const moduleFormat: ModuleFormat =
+    nativeEsm && commonJs
+      ? 'dual'
+      : nativeEsm
+      ? 'esm'
+      : commonJs
+      ? 'cjs'
+      : 'unknown';
+
+  const typesCondition = exportTargets.find(
+    target =>
+      target.conditions.includes('types') || /\.d\.[cm]?ts$/.test(target.target)
+  );
+  const types: McpTypesSupport = { bundled: false };
+  if (manifest.types || manifest.typings) {
+    types.bundled = true;
+    types.entry = manifest.types || manifest.typings;
+    types.declaredBy = manifest.types ? 'types' : 'typings';
+  } else if (typesCondition) {
+    types.bundled = true;
+    types.entry = typesCondition.target;
+    types.declaredBy = 'exports';
+  } else if (manifest.typesVersions) {
+    types.bundled = true;
+    types.declaredBy = 'typesVersions';
+  } else {
+    types.definitelyTyped = await findDefinitelyTypedPackage(
+      rawData.name,
+      version
+    );
+  }
+
+  const { node, ...otherEngines } = manifest.engines || {};
+  const minimumNodeVersion =
+    node && semver.validRange(node)
+      ? semver.minVersion(node)?.version
+      : undefined;
+
+  return {
+    name: rawData.name,
+    version,
+    packageType,
+    moduleFormat,
+    nativeEsm,
+    commonJs,
+    bundlerEsmEntry:
+      manifest.module && !nativeEsm ? manifest.module : undefined,
+    entryPoints: {
+      main: manifest.main,
+      module: manifest.module,
+      exports:
+        exportTargets.length > 0
+          ? Array.from(new Set(exportTargets.map(target => target.subpath)))
+          : undefined
+    },
+    exportsConditions,
+    types,
+    engines: {
+      node,
+      minimumNodeVersion,
+      other: Object.keys(otherEngines).length > 0 ? otherEngines : undefined
+    },
+    browser: {
+      browserField:
+        manifest.browser !== undefined && manifest.browser !== false,
+      browserCondition: exportsConditions.includes('browser')
+    },
+    edgeConditions: exportsConditions.filter(condition =>
+      EDGE_RUNTIME_CONDITIONS.includes(condition)
+    ),
+    source: getPackageSourceUrl(packageName),
+    cache: cacheStatus
+  };
+};
+
+// --- License Compliance ---
+
+type SpdxNode =
+  | { type: 'license'; id: string; exception?: string }
+  | { type: 'and' | 'or'; left: SpdxNode; right: SpdxNode };
+
+interface LicensePolicy {
+  allow: string[];
+  deny: string[];
+}
+
+// Accepts "license": "MIT", "license": { "type": "MIT" } and legacy "licenses": [{ "type": "MIT" }, ...]
+const getLicenseExpression = (manifest: {
+  license?: unknown;
+  licenses?: unknown;
+}): string | undefined => {
+  const toId = (value: unknown): string | undefined =>
+    typeof value === 'string'
+      ? value
+      : value && typeof value === 'object' && 'type' in value
+      ? String((value as { type: unknown }).type)
+      : undefined;
+  const license = toId(manifest.license);
+  if (license) {
+    return license;
+  }
+  const legacy = (Array.isArray(manifest.licenses) ? manifest.licenses : [])
+    .map(toId)
+    .filter((id): id is string => !!id);
+  if (legacy.length === 0) {
+    return undefined;
+  }
+  // A list of licenses meant the user could pick any of them
+  return legacy.length === 1 ? legacy[0] : `(${legacy.join(' OR ')})`;
+};
+
+/**
+ * Parses an SPDX license expression. AND binds tighter than OR, as in the
+ * SPDX specification; operators are matched case-insensitively.
+ */
+const parseSpdxExpression = (expression: string): SpdxNode => {
+  const tokens = expression.replace(/[()]/g, ' $& ').trim().split(/\s+/);
+  let position = 0;
+  const peek = () => tokens[position]?.toUpperCase();
+  const fail = (message: string): never => {
+    throw new Error(`${message} in SPDX expression '${expression}'.`);
+  };
+  const parseAtom = (): SpdxNode => {
+    const token = tokens[position++];
+    if (!token) {
+      return fail('Unexpected end');
+    }
+    if (token === '(') {
+      const node = parseOr();
+      if (tokens[position++] !== ')') {
+        fail("Missing ')'");
+      }
+      return node;
+    }
+    if (token === ')' || ['AND', 'OR', 'WITH'].includes(token.toUpperCase())) {
+      fail(`Unexpected '${token}'`);
+    }
+    const node: SpdxNode = { type: 'license', id: token };
+    if (peek() === 'WITH') {
+      position++;
+      node.exception = tokens[position++] || fail('Missing exception');
+    }
+    return node;
+  };
+  const parseAnd = (): SpdxNode => {
+    let node = parseAtom();
+    while (peek() === 'AND') {
+      position++;
+      node = { type: 'and', left: node, right: parseAtom() };
+    }
+    return node;
+  };
+  const parseOr = (): SpdxNode => {
+    let node = parseAnd();
+    while (peek() === 'OR') {
+      position++;
+      node = { type: 'or', left: node, right: parseAnd() };
+    }
+    return node;
+  };
+  const root = parseOr();
+  if (position < tokens.length) {
+    fail(`Unexpected '${tokens[position]}'`);
+  }
+  return root;
+};
+
+// 'GPL-3.0' in a policy covers GPL-3.0, GPL-3.0+, GPL-3.0-only and GPL-3.0-or-later
+const normalizeLicenseId = (id: string): string =>
+  id
+    .toLowerCase()
+    .replace(/\+$/, '')
+    .replace(/-(only|or-later)$/, '');
+
+const matchesLicensePattern = (id: string, pattern: string): boolean => {
+  const normalizedPattern = normalizeLicenseId(pattern);
+  return normalizedPattern.endsWith('*')
+    ? normalizeLicenseId(id).startsWith(normalizedPattern.slice(0, -1))
+    : normalizeLicenseId(id) === normalizedPattern;
+};
+
+/**
+ * Checks an expression against a policy. OR is satisfied by either side, so
+ * "(MIT OR GPL-3.0)" passes when MIT is allowed; AND needs both sides.
+ * Returns the licenses that made it fail.
+ */
+const evaluateLicensePolicy = (
+  node: SpdxNode,
+  policy: LicensePolicy
+): { allowed: boolean; offending: string[] } => {
+  if (node.type === 'license') {
+    const label = node.exception
+      ? `${node.id} WITH ${node.exception}`
+      : node.id;
+    const denied = policy.deny.some(
+      pattern =>
+        matchesLicensePattern(node.id, pattern) ||
+        label.toLowerCase() === pattern.toLowerCase()
+    );
+    const allowed =
+      !denied &&
+      (policy.allow.length === 0 ||
+        policy.allow.some(
+          pattern =>
+            matchesLicensePattern(node.id, pattern) ||
+            label.toLowerCase() === pattern.toLowerCase()
+        ));
+    return { allowed, offending: allowed ? [] : [label] };
+  }
+  const left = evaluateLicensePolicy(node.left, policy);
+  const right = evaluateLicensePolicy(node.right, policy);
+  const allowed =
+    node.type === 'or'
+      ? left.allowed || right.allowed
+      : left.allowed && right.allowed;
+  return {
+    allowed,
+    offending: allowed ? [] : [...left.offending, ...right.offending]
+  };
+};
+
+const classifyLicense = (
+  license: string | undefined,
+  policy: LicensePolicy
+): { status: LicenseStatus; reason?: string } => {
+  if (!license || license.trim() === '') {
+    return { status: 'unknown', reason: 'No license declared.' };
+  }
+  if (/^(UNLICENSED|SEE LICENSE IN\b)/i.test(license.trim())) {
+    // Private packages can be explicitly accepted with "UNLICENSED" in the allow list
+    if (
+      /^UNLICENSED$/i.test(license.trim()) &&
+      policy.allow.some(pattern => /^UNLICENSED$/i.test(pattern))
+    ) {
+      return { status: 'allowed' };
+    }
+    return {
+      status: 'unknown',
+      reason: `'${license}' is not an SPDX license; check the terms manually.`
+    };
+  }
+  let expression: SpdxNode;
+  try {
+    expression = parseSpdxExpression(license);
+  } catch (error) {
+    return { status: 'unknown', reason: (error as Error).message };
+  }
+  const { allowed, offending } = evaluateLicensePolicy(expression, policy);
+  return allowed
+    ? { status: 'allowed' }
+    : {
+        status: 'violation',
+        reason: `Not permitted by the policy: ${offending.join(', ')}.`
+      };
+};
+
+/**
+ * Builds the same package graph as the lockfile parsers from an installed
+ * node_modules tree, for projects without a lockfile.
+ */
+const readInstalledPackages = (
+  projectPath: string
+): Pick<ParsedLockfile, 'directDependencies' | 'packages'> => {
+  const packages = new Map<string, LockfilePackage>();
+  const requested = new Map<string, string[]>();
+  const visit = (prefix: string) => {
+    const modulesDir = path.join(projectPath, prefix, 'node_modules');
+    if (!fs.existsSync(modulesDir)) {
+      return;
+    }
+    for (const entry of fs.readdirSync(modulesDir)) {
+      if (entry.startsWith('.')) {
+        continue;
+      }
+      const names = entry.startsWith('@')
+        ? fs
+            .readdirSync(path.join(modulesDir, entry))
+            .map(name => `${entry}/${name}`)
+        : [entry];
+      for (const name of names) {
+        const id = `${prefix}node_modules/${name}`;
+        const packageDir = path.join(projectPath, id);
+        let manifest: NpmPackageVersionManifest & { licenses?: unknown };
+        try {
+          manifest = JSON.parse(
+            fs.readFileSync(path.join(packageDir, 'package.json'), 'utf-8')
+          );
+        } catch {
+          continue;
+        }
+        // Symlinked packages (workspaces, npm link) are not descended into
+        const isLink = fs.lstatSync(packageDir).isSymbolicLink();
+        packages.set(id, {
+          id,
+          name,
+          version: manifest.version || '',
+          license: getLicenseExpression(manifest),
+          local: isLink,
+          dependencies: []
+        });
+        requested.set(
+          id,
+          Object.keys({
+            ...manifest.peerDependencies,
+            ...manifest.optionalDependencies,
+            ...manifest.dependencies
+          })
+        );
+        if (!isLink) {
+          visit(`${id}/`);
+        }
+      }
+    }
+  };
+  visit('');
+  const links = new Map<string, string>();
+  for (const [id, names] of requested) {
+    const pkg = packages.get(id)!;
+    for (const name of names) {
+      const childId = resolveNodeModulesPath(packages, links, id, name);
+      if (childId && !pkg.dependencies.includes(childId)) {
+        pkg.dependencies.push(childId);
+      }
+    }
+  }
+  const directDependencies = getManifestDirectDependencies(
+    readProjectManifest(projectPath)
+  ).map(dependency => ({
+    ...dependency,
+    id: resolveNodeModulesPath(packages, links, '', dependency.name)
+  }));
+  return { directDependencies, packages };
+};
+
+const readInstalledLicense = (
+  projectPath: string,
+  pkg: LockfilePackage
+): string | undefined => {
+  // npm lockfile ids are node_modules paths; otherwise try the hoisted copy
+  const packageDir = pkg.id.includes('node_modules/')
+    ? path.join(projectPath, pkg.id)
+    : path.join(projectPath, 'node_modules', pkg.name);
+  try {
+    const manifest = JSON.parse(
+      fs.readFileSync(path.join(packageDir, 'package.json'), 'utf-8')
+    );
+    return manifest.version === pkg.version
+      ? getLicenseExpression(manifest)
+      : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Walks the package graph breadth-first from the direct dependencies, so each
+ * package keeps the shortest chain of name@version labels that brings it in.
+ */
+const getShortestDependencyPaths = (
+  graph: Pick<ParsedLockfile, 'directDependencies' | 'packages'>,
+  rootLabel: string,
+  includeDevDependencies: boolean
+): { paths: Map<string, string[]>; order: string[] } => {
+  const paths = new Map<string, string[]>();
+  const queue: string[] = [];
+  for (const dependency of graph.directDependencies) {
+    if (
+      dependency.id &&
+      (includeDevDependencies || dependency.type !== 'dev') &&
+      !paths.has(dependency.id)
+    ) {
+      const pkg = graph.packages.get(dependency.id);
+      if (pkg) {
+        paths.set(dependency.id, [rootLabel, `${pkg.name}@${pkg.version}`]);
+        queue.push(dependency.id);
+      }
+    }
+  }
+  for (let i = 0; i < queue.length; i++) {
+    const pkg = graph.packages.get(queue[i])!;
+    for (const childId of pkg.dependencies) {
+      const child = graph.packages.get(childId);
+      if (child && !paths.has(childId)) {
+        paths.set(childId, [
+          ...paths.get(queue[i])!,
+          `${child.name}@${child.version}`
+        ]);
+        queue.push(childId);
+      }
+    }
+  }
+  return { paths, order: queue };
+};
+
+const checkProjectLicenses = async (
+  projectPath: string,
+  options: {
+    allow?: string[];
+    deny?: string[];
+    includeDevDependencies?: boolean;
+    useRegistry?: boolean;
+    includeAllPackages?: boolean;
+  }
+): Promise<McpLicenseReportData> => {
+  const manifest = readProjectManifest(projectPath);
+  if (!manifest) {
+    throw new Error(`No package.json found in '${projectPath}'.`);
+  }
+  const lockfile = tryReadProjectLockfile(projectPath);
+  const graph = lockfile ?? readInstalledPackages(projectPath);
+  const policy: LicensePolicy = {
+    allow: options.allow || [],
+    deny: options.deny || []
+  };
+
+  const { paths, order: queue } = getShortestDependencyPaths(
+    graph,
+    manifest.name || path.basename(projectPath),
+    !!options.includeDevDependencies
+  );
+
+  // One entry per name@version; nested copies of the same release share a license
+  const unique = new Map<string, LockfilePackage>();
+  for (const id of queue) {
+    const pkg = graph.packages.get(id)!;
+    const key = `${pkg.name}@${pkg.version}`;
+    if (!unique.has(key)) {
+      unique.set(key, pkg);
+    }
+  }
+  const limit = createConcurrencyLimiter(DEFAULT_REGISTRY_CONCURRENCY);
+  const entries = await Promise.all(
+    Array.from(unique.values()).map(async (pkg): Promise<McpLicenseEntry> => {
+      let license = pkg.license;
+      let licenseSource: McpLicenseEntry['licenseSource'] = license
+        ? lockfile
+          ? 'lockfile'
+          : 'installed'
+        : undefined;
+      if (!license) {
+        license = readInstalledLicense(projectPath, pkg);
+        licenseSource = license ? 'installed' : undefined;
+      }
+      if (
+        !license &&
+        !pkg.local &&
+        (options.useRegistry ?? true) &&
+        classifyResolvedSource(pkg.resolved) === 'registry'
+      ) {
+        try {
+          const { data: rawData } = await limit(() =>
+            fetchPackageData(encodePackageName(pkg.name))
+          );
+          license = getLicenseExpression(
+            rawData.versions?.[pkg.version] ?? rawData
+          );
+          licenseSource = license ? 'registry' : undefined;
+        } catch (error) {
+          console.error(
+            `[${new Date().toISOString()}] Failed to fetch license of ${
+              pkg.name
+            }@${pkg.version}: ${(error as Error).message}`
+          );
+        }
+      }
+      return {
+        name: pkg.name,
+        version: pkg.version,
+        license,
+        licenseSource,
+        ...classifyLicense(license, policy),
+        path: paths.get(pkg.id)!
+      };
+    })
+  );
+
+  const licenses: McpLicenseReportData['licenses'] = {};
+  const summary: McpLicenseReportData['summary'] = {
+    allowed: 0,
+    violation: 0,
+    unknown: 0
+  };
+  for (const entry of entries) {
+    const key = entry.license || 'UNKNOWN';
+    licenses[key] = (licenses[key] || 0) + 1;
+    summary[entry.status]++;
+  }
+  return {
+    projectPath,
+    lockfile: lockfile?.lockfilePath,
+    dependencySource: lockfile ? 'lockfile' : 'node_modules',
+    policy,
+    packagesScanned: entries.length,
+    licenses,
+    summary,
+    violations: entries.filter(entry => entry.status === 'violation'),
+    unknown: entries.filter(entry => entry.status === 'unknown'),
+    packages: options.includeAllPackages ? entries : undefined
+  };
+};
+
+// --- Package Health ---
+
+const DEFAULT_HEALTH_WEIGHTS: { [factor in HealthFactorName]: number } = {
+  recency: 25,
+  releaseCadence: 10,
+  maintainers: 15,
+  deprecation: 20,
+  dependencies: 10,
+  popularity: 15,
+  downloadTrend: 5
+};
+
+// Scores for a value, picked from the first threshold it does not exceed
+const scoreByThresholds = (
+  value: number,
+  thresholds: Array<[number, number]>,
+  otherwise: number
+): number => thresholds.find(([limit]) => value <= limit)?.[1] ?? otherwise;
+
+const getPackageHealth = async (
+  packageName: string,
+  weightOverrides: Partial<{ [factor in HealthFactorName]: number }> = {}
+): Promise<McpPackageHealthData> => {
+  const encodedPackageName = encodePackageName(packageName);
+  const [{ data: rawData, cacheStatus }, downloadsResult] = await Promise.all([
+    fetchPackageData(encodedPackageName),
+    fetchPackageDownloads(encodedPackageName).catch((error: Error) => error)
+  ]);
+  const weights = { ...DEFAULT_HEALTH_WEIGHTS, ...weightOverrides };
+  const latestVersion = rawData['dist-tags']?.latest;
+  const latestManifest = rawData.versions?.[latestVersion];
+  const releases = getReleaseStatistics(rawData);
+  const warnings: string[] = [];
+  const measured: Array<Omit<McpHealthFactor, 'weight' | 'contribution'>> = [];
+  const unavailableFactors: HealthFactorName[] = [];
+
+  const daysSinceRelease = releases.lastReleaseDate
+    ? getDaysSince(releases.lastReleaseDate)
+    : undefined;
+  if (daysSinceRelease !== undefined) {
+    measured.push({
+      name: 'recency',
+      score: scoreByThresholds(
+        daysSinceRelease,
+        [
+          [180, 1],
+          [365, 0.8],
+          [730, 0.5],
+          [1095, 0.25]
+        ],
+        0
+      ),
+      detail: `Last release ${daysSinceRelease} days ago.`
+    });
+    if (daysSinceRelease >= 730) {
+      warnings.push(
+        `No release in ${Math.floor(daysSinceRelease / 365)} years.`
+      );
+    }
+  } else {
+    unavailableFactors.push('recency');
+  }
+
+  measured.push({
+    name: 'releaseCadence',
+    // A mature package may legitimately release rarely, so no releases is not scored 0
+    score:
+      releases.releasesLastYear >= 6
+        ? 1
+        : releases.releasesLastYear >= 3
+        ? 0.8
+        : releases.releasesLastYear >= 1
+        ? 0.6
+        : 0.2,
+    detail: `${releases.releasesLastYear} releases in the last 12 months${
+      releases.averageDaysBetweenReleases !== undefined
+        ? `, one every ${releases.averageDaysBetweenReleases} days on average`
+        : ''
+    }.`
+  });
+
+  const maintainerCount = rawData.maintainers?.length;
+  if (maintainerCount !== undefined) {
+    measured.push({
+      name: 'maintainers',
+      score: scoreByThresholds(
+        maintainerCount,
+        [
+          [0, 0],
+          [1, 0.4],
+          [2, 0.8]
+        ],
+        1
+      ),
+      detail: `${maintainerCount} maintainer${
+        maintainerCount === 1 ? '' : 's'
+      }.`
+    });
+    if (maintainerCount === 1) {
+      warnings.push('Single maintainer.');
+    }
+  } else {
+    unavailableFactors.push('maintainers');
+  }
+
+  // Recent deprecations say more than ones from years ago, so only the last 10 releases count
+  const recentVersions = Object.keys(rawData.versions || {})
+    .filter(version => semver.valid(version))
+    .sort(semver.rcompare)
+    .slice(0, 10);
+  const deprecatedRecent = recentVersions.filter(
+    version => rawData.versions?.[version]?.deprecated
+  ).length;
+  if (latestManifest?.deprecated) {
+    warnings.push(`Latest version is deprecated: ${latestManifest.deprecated}`);
+  } else if (deprecatedRecent > 0) {
+    warnings.push(
+      `${deprecatedRecent} of the last ${recentVersions.length} versions are deprecated.`
+    );
+  }
+  measured.push({
+    name: 'deprecation',
+    score: latestManifest?.deprecated
+      ? 0
+      : recentVersions.length > 0
+      ? 1 - (deprecatedRecent / recentVersions.length) * 0.5
+      : 1,
+    detail: latestManifest?.deprecated
+      ? 'Latest version is deprecated.'
+      : `${deprecatedRecent} of the last ${recentVersions.length} versions deprecated.`
+  });
+
+  const dependencyCount = Object.keys(
+    latestManifest?.dependencies || {}
+  ).length;
+  measured.push({
+    name: 'dependencies',
+    score: scoreByThresholds(
+      dependencyCount,
+      [
+        [5, 1],
+        [15, 0.7],
+        [30, 0.4]
+      ],
+      0.2
+    ),
+    detail: `${dependencyCount} direct dependencies in the latest version.`
+  });
+  if (dependencyCount > 30) {
+    warnings.push(`${dependencyCount} direct dependencies.`);
+  }
+
+  const downloads =
+    downloadsResult instanceof Error ? undefined : downloadsResult.downloads;
+  const weekly = downloads?.['last-week'];
+  const monthly = downloads?.['last-month'];
+  if (weekly !== undefined) {
+    measured.push({
+      name: 'popularity',
+      // Logarithmic: 1,000 weekly downloads score 0.5, 1,000,000 score 1
+      score: Math.min(1, Math.log10(weekly + 1) / 6),
+      detail: `${weekly} downloads in the last week.`
+    });
+  } else {
+    unavailableFactors.push('popularity');
+  }
+  if (weekly !== undefined && monthly) {
+    // Last week's pace against the last month's average pace
+    const change = (weekly * 30) / 7 / monthly - 1;
+    measured.push({
+      name: 'downloadTrend',
+      score: change >= 0 ? 1 : change >= -0.25 ? 0.7 : 0.3,
+      detail: `Weekly pace is ${Math.round(change * 100)}% ${
+        change >= 0 ? 'above' : 'below'
+      } the monthly average.`
+    });
+    if (change < -0.25) {
+      warnings.push('Downloads are falling.');
+    }
+  } else {
+    unavailableFactors.push('downloadTrend');
+  }
+
+  // Unmeasured factors are left out rather than counted as 0
+  const totalWeight = measured.reduce(
+    (total, factor) => total + weights[factor.name],
+    0
+  );
+  const factors: McpHealthFactor[] = measured.map(factor => ({
+    ...factor,
+    score: Math.round(factor.score * 100) / 100,
+    weight: weights[factor.name],
+    contribution:
+      totalWeight > 0
+        ? Math.round(
+            ((factor.score * weights[factor.name]) / totalWeight) * 1000
+          ) / 10
+        : 0
+  }));
+  const score = Math.round(
+    factors.reduce((total, factor) => total + factor.contribution, 0)
+  );
+  return {
+    name: rawData.name,
+    latestVersion: latestVersion || 'N/A',
+    score,
+    rating: score >= 75 ? 'healthy' : score >= 50 ? 'fair' : 'poor',
+    factors,
+    unavailableFactors,
+    warnings,
+    weights,
+    source: getPackageSourceUrl(packageName),
+    cache: cacheStatus
+  };
+};
+
+// --- Supply Chain Risk ---
+
+const INSTALL_SCRIPT_NAMES = ['preinstall', 'install', 'postinstall'];
+const FAST_REPUBLISH_MINUTES = 60;
+const SIZE_JUMP_RATIO = 1.5;
+const SIZE_JUMP_MIN_BYTES = 100 * 1024;
+
+interface NpmRegistryKey {
+  keyid: string;
+  key: string;
+  expires: string | null;
+}
+
+const fetchRegistryKeys = async (
+  registryUrl: string
+): Promise<NpmRegistryKey[]> => {
+  const url = `${registryUrl}/-/npm/v1/keys`;
+  try {
+    const { data } = await cachedGet<{ keys?: NpmRegistryKey[] }>(
+      url,
+      getRegistryRequestHeaders(url)
+    );
+    return data.keys || [];
+  } catch (error) {
+    throw toNpmApiError(error, `registry signing keys at ${url}`);
+  }
+};
+
+/**
+ * Verifies dist.signatures the same way `npm audit signatures` does: an
+ * ECDSA P-256 signature over "<name>@<version>:<integrity>" by a registry key
+ * that had not expired when the version was published.
+ */
+const verifyRegistrySignatures = async (
+  packageName: string,
+  manifest: NpmPackageVersionManifest,
+  publishedAt: string | undefined
+): Promise<McpSupplyChainRiskData['signatures']> => {
+  const signatures = manifest.dist.signatures || [];
+  if (signatures.length === 0) {
+    return { present: false, verified: false };
+  }
+  let keys: NpmRegistryKey[];
+  try {
+    keys = await fetchRegistryKeys(getRegistryUrlForPackage(packageName));
+  } catch (error) {
+    return {
+      present: true,
+      verified: false,
+      error: (error as Error).message
+    };
+  }
+  const message = `${manifest.name}@${manifest.version}:${manifest.dist.integrity}`;
+  for (const signature of signatures) {
+    const key = keys.find(candidate => candidate.keyid === signature.keyid);
+    if (!key) {
+      continue;
+    }
+    if (
+      key.expires &&
+      publishedAt &&
+      new Date(key.expires).getTime() < new Date(publishedAt).getTime()
+    ) {
+      return {
+        present: true,
+        verified: false,
+        keyId: key.keyid,
+        error: `Signing key expired on ${key.expires}, before the version was published.`
+      };
+    }
+    let verified: boolean;
+    try {
+      verified = crypto.verify(
+        'sha256',
+        Buffer.from(message),
+        crypto.createPublicKey({
+          key: Buffer.from(key.key, 'base64'),
+          format: 'der',
+          type: 'spki'
+        }),
+        Buffer.from(signature.sig, 'base64')
+      );
+    } catch (error) {
+      return {
+        present: true,
+        verified: false,
+        keyId: key.keyid,
+        error: `Could not verify the signature: ${(error as Error).message}`
+      };
+    }
+    return verified
+      ? { present: true, verified: true, keyId: key.keyid }
+      : {
+          present: true,
+          verified: false,
+          keyId: key.keyid,
+          error: 'Signature does not match the registry key.'
+        };
+  }
+  return {
+    present: true,
+    verified: false,
+    error: `None of the signing keys (${signatures
+      .map(signature => signature.keyid)
+      .join(', ')}) is published by the registry.`
+  };
+};
+
+// Reads the source repository and workflow out of the SLSA provenance statement
+const fetchProvenanceDetails = async (
+  attestations: NonNullable<NpmVersionDist['attestations']>
+): Promise<
+  Pick<
+    McpSupplyChainRiskData['provenance'],
+    'sourceRepository' | 'workflow' | 'error'
+  >
+> => {
+  try {
+    const { data } = await cachedGet<{
+      attestations?: Array<{
+        predicateType: string;
+        bundle?: { dsseEnvelope?: { payload?: string } };
+      }>;
+    }>(attestations.url, getRegistryRequestHeaders(attestations.url));
+    const attestation = data.attestations?.find(
+      candidate =>
+        candidate.predicateType === attestations.provenance?.predicateType
+    );
+    const payload = attestation?.bundle?.dsseEnvelope?.payload;
+    if (!payload) {
+      return {};
+    }
+    const statement = JSON.parse(Buffer.from(payload, 'base64').toString());
+    const workflow =
+      statement.predicate?.buildDefinition?.externalParameters?.workflow;
+    if (workflow) {
+      return {
+        sourceRepository: workflow.repository,
+        workflow: `${workflow.path}@${workflow.ref}`
+      };
+    }
+    // SLSA v0.2 statements describe the build source differently
+    const configSource = statement.predicate?.invocation?.configSource;
+    return {
+      sourceRepository: configSource?.uri,
+      workflow: configSource?.entryPoint
+    };
+  } catch (error) {
+    return { error: (error as Error).message };
+  }
+};
+
+const getMaxSeverity = (
+  signals: McpSupplyChainSignal[]
+): McpSupplyChainRiskData['riskLevel'] => {
+  const order: SupplyChainSeverity[] = ['high', 'medium', 'low', 'info'];
+  return (
+    order.find(severity =>
+      signals.some(signal => signal.severity === severity)
+    ) || 'none'
+  );
+};
+
+const checkSupplyChainRisk = async (
+  packageName: string,
+  versionSpec?: string,
+  compareWith?: string
+): Promise<McpSupplyChainRiskData> => {
+  const { data: rawData, cacheStatus } = await fetchPackageData(
+    encodePackageName(packageName)
+  );
+  const { version } = resolvePackageVersion(rawData, versionSpec);
+  const manifest = getVersionManifest(rawData, version);
+  const times = rawData.time || {};
+  const publishedAt = times[version];
+
+  // The previous release by version order; prereleases only count for a prerelease
+  const previousVersion = compareWith
+    ? resolvePackageVersion(rawData, compareWith).version
+    : Object.keys(rawData.versions || {})
+        .filter(
+          candidate =>
+            semver.valid(candidate) &&
+            semver.lt(candidate, version) &&
+            (semver.prerelease(version) || !semver.prerelease(candidate))
+        )
+        .sort(semver.rcompare)[0];
+  const previous = previousVersion
+    ? getVersionManifest(rawData, previousVersion)
+    : undefined;
+  const signals: McpSupplyChainSignal[] = [];
+
+  const installScripts = Object.fromEntries(
+    Object.entries(manifest.scripts || {}).filter(([name]) =>
+      INSTALL_SCRIPT_NAMES.includes(name)
+    )
+  );
+  if (Object.keys(installScripts).length > 0) {
+    signals.push({
+      type: 'install-scripts',
+      severity: 'high',
+      message: `Runs ${Object.keys(installScripts).join(
+        ', '
+      )} script(s) on install.`,
+      evidence: {
+        scripts: installScripts,
+        newInThisVersion: Object.keys(installScripts).filter(
+          name => !previous?.scripts?.[name]
+        )
+      }
+    });
+  } else if (manifest.gypfile) {
+    signals.push({
+      type: 'native-build',
+      severity: 'medium',
+      message: 'Has a binding.gyp, so npm runs node-gyp rebuild on install.',
+      evidence: { gypfile: true }
+    });
+  }
+
+  const publisher = manifest._npmUser?.name;
+  if (publisher && previous) {
+    const earlierPublishers = new Set(
+      Object.entries(rawData.versions || {})
+        .filter(
+          ([candidate]) =>
+            times[candidate] &&
+            publishedAt &&
+            times[candidate] < publishedAt &&
+            candidate !== version
+        )
+        .map(([, candidate]) => candidate._npmUser?.name)
+        .filter(Boolean)
+    );
+    const previousPublisher = previous._npmUser?.name;
+    if (earlierPublishers.size > 0 && !earlierPublishers.has(publisher)) {
+      signals.push({
+        type: 'new-publisher',
+        severity: 'high',
+        message: `Published by '${publisher}', who has not published this package before.`,
+        evidence: {
+          publisher,
+          previousPublisher,
+          earlierPublishers: Array.from(earlierPublishers)
+        }
+      });
+    } else if (previousPublisher && previousPublisher !== publisher) {
+      signals.push({
+        type: 'publisher-change',
+        severity: 'low',
+        message: `Published by '${publisher}'; ${previousVersion} was published by '${previousPublisher}'.`,
+        evidence: { publisher, previousPublisher }
+      });
+    }
+  }
+  if (previous?.maintainers && manifest.maintainers) {
+    const before = previous.maintainers.map(maintainer => maintainer.name);
+    const after = manifest.maintainers.map(maintainer => maintainer.name);
+    const added = after.filter(name => !before.includes(name));
+    const removed = before.filter(name => !after.includes(name));
+    if (added.length > 0 || removed.length > 0) {
+      signals.push({
+        type: 'maintainer-change',
+        severity: 'medium',
+        message: `Maintainers changed since ${previousVersion}.`,
+        evidence: { added, removed, previousVersion }
+      });
+    }
+  }
+
+  const provenance: McpSupplyChainRiskData['provenance'] = {
+    present: !!manifest.dist.attestations?.provenance
+  };
+  if (manifest.dist.attestations?.provenance) {
+    provenance.predicateType =
+      manifest.dist.attestations.provenance.predicateType;
+    Object.assign(
+      provenance,
+      await fetchProvenanceDetails(manifest.dist.attestations)
+    );
+  } else if (previous?.dist.attestations?.provenance) {
+    signals.push({
+      type: 'provenance-dropped',
+      severity: 'high',
+      message: `${previousVersion} was published with provenance, but this version was not.`,
+      evidence: {
+        previousVersion,
+        previousPredicateType:
+          previous.dist.attestations.provenance.predicateType
+      }
+    });
+  } else {
+    signals.push({
+      type: 'provenance-missing',
+      severity: 'info',
+      message:
+        'No provenance attestation, so the build cannot be traced to its source.',
+      evidence: {}
+    });
+  }
+
+  const signatures = await verifyRegistrySignatures(
+    packageName,
+    manifest,
+    publishedAt
+  );
+  if (signatures.present && !signatures.verified) {
+    signals.push({
+      type: 'signature-invalid',
+      severity: 'high',
+      message: 'The registry signature could not be verified.',
+      evidence: { keyId: signatures.keyId, error: signatures.error }
+    });
+  } else if (!signatures.present) {
+    signals.push({
+      type: 'signature-missing',
+      // Private registries often do not sign; the public one signs everything
+      severity: getRegistryUrlForPackage(packageName).startsWith(
+        DEFAULT_NPM_REGISTRY_BASE_URL
+      )
+        ? 'medium'
+        : 'info',
+      message: 'The version has no registry signatures.',
+      evidence: { registry: getRegistryUrlForPackage(packageName) }
+    });
+  }
+
+  if (previousVersion && publishedAt && times[previousVersion]) {
+    const minutes = Math.round(
+      (new Date(publishedAt).getTime() -
+        new Date(times[previousVersion]).getTime()) /
+        60000
+    );
+    if (minutes >= 0 && minutes < FAST_REPUBLISH_MINUTES) {
+      signals.push({
+        type: 'fast-republish',
+        severity: 'medium',
+        message: `Published ${minutes} minutes after ${previousVersion}.`,
+        evidence: {
+          previousVersion,
+          previousPublishedAt: times[previousVersion],
+          publishedAt,
+          minutesBetween: minutes
+        }
+      });
+    }
+  }
+
+  const size = manifest.dist.unpackedSize;
+  const previousSize = previous?.dist.unpackedSize;
+  if (
+    size !== undefined &&
+    previousSize &&
+    size / previousSize >= SIZE_JUMP_RATIO &&
+    size - previousSize >= SIZE_JUMP_MIN_BYTES
+  ) {
+    signals.push({
+      type: 'size-jump',
+      severity: 'medium',
+      message: `Unpacked size grew from ${formatBytes(
+        previousSize
+      )} to ${formatBytes(size)} since ${previousVersion}.`,
+      evidence: {
+        previousVersion,
+        previousUnpackedSize: previousSize,
+        unpackedSize: size,
+        previousFileCount: previous?.dist.fileCount,
+        fileCount: manifest.dist.fileCount
+      }
+    });
+  }
+
+  if (
+    previous &&
+    previousVersion &&
+    semver.diff(previousVersion, version)?.endsWith('patch')
+  ) {
+    const before = {
+      ...previous.optionalDependencies,
+      ...previous.dependencies
+    };
+    const added = Object.entries({
+      ...manifest.optionalDependencies,
+      ...manifest.dependencies
+    }).filter(([name]) => !(name in before));
+    if (added.length > 0) {
+      signals.push({
+        type: 'new-dependencies-in-patch',
+        severity: 'medium',
+        message: `Patch release adds ${added.length} new dependenc${
+          added.length === 1 ? 'y' : 'ies'
+        }.`,
+        evidence: { previousVersion, added: Object.fromEntries(added) }
+      });
+    }
+  }
+
+  return {
+    name: rawData.name,
+    version,
+    previousVersion,
+    publishedAt,
+    publisher,
+    provenance,
+    signatures,
+    riskLevel: getMaxSeverity(
+      signals.filter(signal => signal.severity !== 'info')
+    ),
+    signals,
+    source: getPackageSourceUrl(packageName),
+    cache: cacheStatus
+  };
+};
+
+// --- Version Diff ---
+
+const DIFF_MAX_FILE_BYTES = 256 * 1024;
+const DEFAULT_DIFF_MAX_BYTES = 64 * 1024;
+// Upper bound on the line-comparison table (old lines x new lines)
+const DIFF_MAX_CELLS = 4000000;
+const DIFF_CONTEXT_LINES = 3;
+
+const diffStringMaps = (
+  before: { [key: string]: string } = {},
+  after: { [key: string]: string } = {}
+): McpMapDiff | undefined => {
+  const diff: Required<McpMapDiff> = { added: {}, removed: {}, changed: {} };
+  for (const [key, value] of Object.entries(after)) {
+    if (!(key in before)) {
+      diff.added[key] = value;
+    } else if (before[key] !== value) {
+      diff.changed[key] = { from: before[key], to: value };
+    }
+  }
+  for (const [key, value] of Object.entries(before)) {
+    if (!(key in after)) {
+      diff.removed[key] = value;
+    }
+  }
+  const result: McpMapDiff = {};
+  for (const group of ['added', 'removed', 'changed'] as const) {
+    if (Object.keys(diff[group]).length > 0) {
+      Object.assign(result, { [group]: diff[group] });
+    }
+  }
+  return Object.keys(result).length > 0 ? result : undefined;
+};
+
+// "bin": "cli.js" is shorthand for { "<package name>": "cli.js" }
+const normalizeBin = (
+  manifest: NpmPackageVersionManifest
+): { [command: string]: string } =>
+  typeof manifest.bin === 'string'
+    ? { [manifest.name.split('/').pop() as string]: manifest.bin }
+    : manifest.bin || {};
+
+const describeExportTargets = (exportsField: unknown): string[] =>
+  exportsField === undefined
+    ? []
+    : flattenPackageExports(exportsField).map(
+        target =>
+          `${target.subpath}${
+            target.conditions.length > 0
+              ? ` [${target.conditions.join(' > ')}]`
+              : ''
+          } -> ${target.target}`
+      );
+
+const diffManifests = (
+  before: NpmPackageVersionManifest & { devDependencies?: object },
+  after: NpmPackageVersionManifest & { devDependencies?: object }
+): McpVersionDiffData['manifest'] => {
+  const manifest: McpVersionDiffData['manifest'] = {
+    dependencies: diffStringMaps(before.dependencies, after.dependencies),
+    peerDependencies: diffStringMaps(
+      before.peerDependencies,
+      after.peerDependencies
+    ),
+    optionalDependencies: diffStringMaps(
+      before.optionalDependencies,
+      after.optionalDependencies
+    ),
+    devDependencies: diffStringMaps(
+      before.devDependencies as { [name: string]: string },
+      after.devDependencies as { [name: string]: string }
+    ),
+    engines: diffStringMaps(before.engines, after.engines),
+    scripts: diffStringMaps(before.scripts, after.scripts),
+    bin: diffStringMaps(normalizeBin(before), normalizeBin(after))
+  };
+  const licenseBefore = getLicenseExpression(before);
+  const licenseAfter = getLicenseExpression(after);
+  if (licenseBefore !== licenseAfter) {
+    manifest.license = { from: licenseBefore, to: licenseAfter };
+  }
+  const fields: NonNullable<McpVersionDiffData['manifest']['fields']> = {};
+  for (const field of ['type', 'main', 'module', 'types', 'typings'] as const) {
+    if (before[field] !== after[field]) {
+      fields[field] = { from: before[field], to: after[field] };
+    }
+  }
+  if (Object.keys(fields).length > 0) {
+    manifest.fields = fields;
+  }
+  const exportsBefore = describeExportTargets(before.exports);
+  const exportsAfter = describeExportTargets(after.exports);
+  const addedExports = exportsAfter.filter(
+    target => !exportsBefore.includes(target)
+  );
+  const removedExports = exportsBefore.filter(
+    target => !exportsAfter.includes(target)
+  );
+  if (addedExports.length > 0 || removedExports.length > 0) {
+    manifest.exports = { added: addedExports, removed: removedExports };
+  }
+  return manifest;
+};
+
+/**
+ * Produces a unified diff (3 lines of context) from a longest common
+ * subsequence of lines. Returns undefined when the files are too different
+ * to compare within DIFF_MAX_CELLS.
+ */
+const createUnifiedDiff = (
+  filePath: string,
+  beforeText: string,
+  afterText: string
+): string | undefined => {
+  const a = beforeText.split('\n');
+  const b = afterText.split('\n');
+  // Common prefix and suffix need no table
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+  const n = a.length - prefix - suffix;
+  const m = b.length - prefix - suffix;
+  if ((n + 1) * (m + 1) > DIFF_MAX_CELLS) {
+    return undefined;
+  }
+  // lcs[i][j]: LCS length of a[prefix+i..] and b[prefix+j..] (middle part only)
+  const lcs = new Uint32Array((n + 1) * (m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * (m + 1) + j] =
+        a[prefix + i] === b[prefix + j]
+          ? lcs[(i + 1) * (m + 1) + j + 1] + 1
+          : Math.max(lcs[(i + 1) * (m + 1) + j], lcs[i * (m + 1) + j + 1]);
+    }
+  }
+  const ops: Array<{ kind: ' ' | '-' | '+'; line: string }> = a
+    .slice(0, prefix)
+    .map(line => ({ kind: ' ' as const, line }));
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && a[prefix + i] === b[prefix + j]) {
+      ops.push({ kind: ' ', line: a[prefix + i] });
+      i++;
+      j++;
+    } else if (
+      i < n &&
+      (j === m || lcs[(i + 1) * (m + 1) + j] >= lcs[i * (m + 1) + j + 1])
+    ) {
+      ops.push({ kind: '-', line: a[prefix + i] });
+      i++;
+    } else {
+      ops.push({ kind: '+', line: b[prefix + j] });
+      j++;
+    }
+  }
+  ops.push(
+    ...a.slice(a.length - suffix).map(line => ({ kind: ' ' as const, line }))
+  );
+
+  const lines = [`--- a/${filePath}`, `+++ b/${filePath}`];
+  let index = 0;
+  while (index < ops.length) {
+    const firstChange = ops.findIndex(
+      (op, position) => position >= index && op.kind !== ' '
+    );
+    if (firstChange === -1) {
+      break;
+    }
+    const start = Math.max(index, firstChange - DIFF_CONTEXT_LINES);
+    // Extend the hunk while changes are within 2 * context lines of each other
+    let end = firstChange;
+    let lastChange = firstChange;
+    while (end < ops.length && end - lastChange <= DIFF_CONTEXT_LINES * 2) {
+      if (ops[end].kind !== ' ') {
+        lastChange = end;
+      }
+      end++;
+    }
+    end = Math.min(ops.length, lastChange + DIFF_CONTEXT_LINES + 1);
+    const hunk = ops.slice(start, end);
+    const oldStart =
+      ops.slice(0, start).filter(op => op.kind !== '+').length + 1;
+    const newStart =
+      ops.slice(0, start).filter(op => op.kind !== '-').length + 1;
+    const oldCount = hunk.filter(op => op.kind !== '+').length;
+    const newCount = hunk.filter(op => op.kind !== '-').length;
+    lines.push(
+      `@@ -${oldCount === 0 ? oldStart - 1 : oldStart},${oldCount} +${
+        newCount === 0 ? newStart - 1 : newStart
+      },${newCount} @@`,
+      ...hunk.map(op => `${op.kind}${op.line}`)
+    );
+    index = end;
+  }
+  return lines.join('\n');
+};
+
+const diffPackageVersions = async (
+  packageName: string,
+  fromSpec: string,
+  toSpec: string,
+  options: {
+    includeFiles?: boolean;
+    diffFiles?: string[];
+    maxDiffBytes?: number;
+  }
+): Promise<McpVersionDiffData> => {
+  const { data: rawData, cacheStatus } = await fetchPackageData(
+    encodePackageName(packageName)
+  );
+  const fromVersion = resolvePackageVersion(rawData, fromSpec).version;
+  const toVersion = resolvePackageVersion(rawData, toSpec).version;
+  const before = getVersionManifest(rawData, fromVersion);
+  const after = getVersionManifest(rawData, toVersion);
+  const resultData: McpVersionDiffData = {
+    name: rawData.name,
+    fromVersion,
+    toVersion,
+    manifest: diffManifests(before, after),
+    source: getPackageSourceUrl(packageName),
+    cache: cacheStatus
+  };
+  const diffFiles = (options.diffFiles || []).map(normalizeTarballPath);
+  if (!(options.includeFiles ?? true) && diffFiles.length === 0) {
+    return resultData;
+  }
+
+  const [beforeTarball, afterTarball] = await Promise.all([
+    fetchPackageTarball(before.dist),
+    fetchPackageTarball(after.dist)
+  ]);
+  // Contents are needed to tell changed files apart from unchanged ones
+  const beforeFiles = new Map(
+    readTarballFiles(beforeTarball.tarball, () => true).files.map(file => [
+      file.path,
+      file
+    ])
+  );
+  const afterFiles = new Map(
+    readTarballFiles(afterTarball.tarball, () => true).files.map(file => [
+      file.path,
+      file
+    ])
+  );
+  const files: NonNullable<McpVersionDiffData['files']> = {
+    added: [],
+    removed: [],
+    changed: [],
+    unchanged: 0,
+    unpackedSizeBefore: 0,
+    unpackedSizeAfter: 0
+  };
+  for (const [filePath, file] of afterFiles) {
+    files.unpackedSizeAfter += file.size;
+    const previous = beforeFiles.get(filePath);
+    if (!previous) {
+      files.added.push({ path: filePath, size: file.size });
+    } else if (!(previous.contents as Buffer).equals(file.contents as Buffer)) {
+      files.changed.push({
+        path: filePath,
+        sizeBefore: previous.size,
+        sizeAfter: file.size
+      });
+    } else {
+      files.unchanged++;
+    }
+  }
+  for (const [filePath, file] of beforeFiles) {
+    files.unpackedSizeBefore += file.size;
+    if (!afterFiles.has(filePath)) {
+      files.removed.push({ path: filePath, size: file.size });
+    }
+  }
+  if (options.includeFiles ?? true) {
+    for (const list of [files.added, files.removed, files.changed]) {
+      list.sort((left, right) => left.path.localeCompare(right.path));
+    }
+    resultData.files = files;
+  }
+
+  if (diffFiles.length > 0) {
+    let remaining = options.maxDiffBytes ?? DEFAULT_DIFF_MAX_BYTES;
+    resultData.diffs = diffFiles.map((filePath): McpFileDiff => {
+      const beforeContents = beforeFiles.get(filePath)?.contents;
+      const afterContents = afterFiles.get(filePath)?.contents;
+      if (!beforeContents && !afterContents) {
+        return { path: filePath, skipped: 'Not present in either version.' };
+      }
+      const contents = [beforeContents, afterContents].filter(
+        (buffer): buffer is Buffer => !!buffer
+      );
+      if (contents.some(buffer => buffer.length > DIFF_MAX_FILE_BYTES)) {
+        return {
+          path: filePath,
+          skipped: `Larger than ${formatBytes(DIFF_MAX_FILE_BYTES)}.`
+        };
+      }
+      if (contents.some(buffer => buffer.subarray(0, 8000).includes(0))) {
+        return { path: filePath, skipped: 'Binary file.' };
+      }
+      if (
+        beforeContents &&
+        afterContents &&
+        beforeContents.equals(afterContents)
+      ) {
+        return { path: filePath, skipped: 'Unchanged.' };
+      }
+      if (remaining <= 0) {
+        return { path: filePath, skipped: 'maxDiffBytes reached.' };
+      }
+      const diff = createUnifiedDiff(
+        filePath,
+        beforeContents?.toString('utf-8') ?? '',
+        afterContents?.toString('utf-8') ?? ''
+      );
+      if (diff === undefined) {
+        return { path: filePath, skipped: 'Too many changed lines to diff.' };
+      }
+      const truncated = diff.length > remaining;
+      const text = truncated ? `${diff.substring(0, remaining)}…` : diff;
+      remaining -= diff.length;
+      return { path: filePath, diff: text, truncated };
+    });
+  }
+  return resultData;
+};
+
+// --- Upgrade Planning ---
+
+// Keeps the operator of the existing range ("^", "~" or exact); anything more complex becomes a caret range
+const toUpgradedRange = (range: string, version: string): string => {
+  const aliasMatch = /^npm:(.+)$/.exec(range);
+  if (aliasMatch) {
+    const { name, range: aliasedRange } = splitPackageDescriptor(aliasMatch[1]);
+    return `npm:${name}@${toUpgradedRange(aliasedRange, version)}`;
+  }
+  const operatorMatch =
+    /^\s*([~^]|=?)v?\d+(\.[\dx*]+){0,2}(-[\w.]+)?\s*$/i.exec(range);
+  if (!operatorMatch) {
+    return `^${version}`;
+  }
+  return `${operatorMatch[1] === '=' ? '' : operatorMatch[1]}${version}`;
+};
+
+const getEnginesNodeRange = (engines?: { [engine: string]: string }) =>
+  engines?.node && semver.validRange(engines.node) ? engines.node : undefined;
+
+const planDependencyUpgrades = async (
+  projectPath: string,
+  options: { includeDevDependencies?: boolean; includeRisky?: boolean }
+): Promise<McpUpgradePlanData> => {
+  const manifestPath = path.join(projectPath, 'package.json');
+  const manifest = readProjectManifest(projectPath);
+  if (!manifest) {
+    throw new Error(`No package.json found in '${projectPath}'.`);
+  }
+  const lockfile = tryReadProjectLockfile(projectPath);
+  const projectNodeRange = getEnginesNodeRange(manifest.engines);
+  const directDependencies = getManifestDirectDependencies(manifest).filter(
+    dependency =>
+      (options.includeDevDependencies ?? true) || dependency.type !== 'dev'
+  );
+  const limit = createConcurrencyLimiter(DEFAULT_REGISTRY_CONCURRENCY);
+  const installedVersions = new Map<string, string>();
+  const skipped: McpUpgradePlanData['skipped'] = [];
+  let upToDate = 0;
+
+  const candidates = (
+    await Promise.all(
+      directDependencies.map(async dependency => {
+        const registrySpec = getRegistrySpec(dependency.name, dependency.range);
+        if ('skipped' in registrySpec) {
+          skipped.push({ name: dependency.name, reason: registrySpec.skipped });
+          return [];
+        }
+        let rawData: NpmRegistryPackageInfo;
+        try {
+          rawData = (
+            await limit(() =>
+              fetchPackageData(encodePackageName(registrySpec.packageName))
+            )
+          ).data;
+        } catch (error) {
+          skipped.push({
+            name: dependency.name,
+            reason: (error as Error).message
+          });
+          return [];
+        }
+        let current = getInstalledDependencyVersion(
+          projectPath,
+          lockfile,
+          dependency.name
+        );
+        if (!current) {
+          try {
+            current = resolvePackageVersion(
+              rawData,
+              registrySpec.range
+            ).version;
+          } catch {
+            skipped.push({
+              name: dependency.name,
+              reason: `No installed version and no published version matches '${registrySpec.range}'.`
+            });
+            return [];
+          }
+        }
+        installedVersions.set(dependency.name, current);
+        // Deprecated versions and prereleases are never proposed
+        const releases = Object.values(rawData.versions || {})
+          .filter(
+            version =>
+              semver.valid(version.version) &&
+              !semver.prerelease(version.version) &&
+              !version.deprecated &&
+              semver.gt(version.version, current as string)
+          )
+          .sort((left, right) => semver.compare(left.version, right.version));
+        const compatible = releases
+          .filter(
+            version =>
+              semver.major(version.version) === semver.major(current as string)
+          )
+          .pop();
+        const newest = releases[releases.length - 1];
+        const targets = [
+          compatible,
+          newest !== compatible ? newest : undefined
+        ].filter((target): target is NpmPackageVersionManifest => !!target);
+        if (targets.length === 0) {
+          upToDate++;
+        }
+        return targets.map(target => ({
+          dependency,
+          currentManifest: rawData.versions?.[current as string],
+          from: current as string,
+          target
+        }));
+      })
+    )
+  ).flat();
+
+  let advisories = new Map<string, NpmAdvisoryEntry[]>();
+  let advisoryError: string | undefined;
+  try {
+    const { vulnerabilities } = await fetchBulkAdvisories(
+      candidates.flatMap(candidate => [
+        { name: candidate.target.name, version: candidate.from },
+        { name: candidate.target.name, version: candidate.target.version }
+      ])
+    );
+    advisories = vulnerabilities.reduce((byVersion, vulnerability) => {
+      const key = `${vulnerability.package}@${vulnerability.version}`;
+      return byVersion.set(key, [...(byVersion.get(key) || []), vulnerability]);
+    }, new Map<string, NpmAdvisoryEntry[]>());
+  } catch (error) {
+    advisoryError = (error as Error).message;
+  }
+
+  const safe: McpUpgradeChange[] = [];
+  const risky: McpUpgradeChange[] = [];
+  for (const { dependency, currentManifest, from, target } of candidates) {
+    const targetAdvisoryIds = new Set(
+      (advisories.get(`${target.name}@${target.version}`) || []).map(
+        advisory => advisory.advisoryId
+      )
+    );
+    const change: McpUpgradeChange = {
+      name: dependency.name,
+      type: dependency.type,
+      range: dependency.range,
+      newRange: toUpgradedRange(dependency.range, target.version),
+      from,
+      to: target.version,
+      bump: getVersionBump(from, target.version),
+      advisoriesFixed: (advisories.get(`${target.name}@${from}`) || [])
+        .filter(advisory => !targetAdvisoryIds.has(advisory.advisoryId))
+        .map(advisory => ({
+          advisoryId: advisory.advisoryId,
+          ghsaId: advisory.ghsaId,
+          severity: advisory.severity,
+          title: advisory.title
+        })),
+      deprecationsRemoved: currentManifest?.deprecated
+        ? [`${target.name}@${from}: ${currentManifest.deprecated}`]
+        : [],
+      enginesChange: diffStringMaps(currentManifest?.engines, target.engines),
+      peerDependencyChanges: diffStringMaps(
+        currentManifest?.peerDependencies,
+        target.peerDependencies
+      )
+    };
+
+    const reasons: string[] = [];
+    if (change.bump === 'major') {
+      reasons.push(`Major version bump from ${from} to ${target.version}.`);
+    } else if (semver.major(from) === 0 && change.bump === 'minor') {
+      reasons.push(
+        `Minor bump of a 0.x version (${from} to ${target.version}), which semver treats as breaking.`
+      );
+    }
+    const targetNodeRange = getEnginesNodeRange(target.engines);
+    const currentNodeRange = getEnginesNodeRange(currentManifest?.engines);
+    let requiresNewerNode = false;
+    if (targetNodeRange && targetNodeRange !== currentNodeRange) {
+      const baseline = projectNodeRange ?? currentNodeRange;
+      if (!baseline || !semver.subset(baseline, targetNodeRange)) {
+        requiresNewerNode = true;
+        reasons.push(
+          `Requires Node ${targetNodeRange}${
+            baseline
+              ? `, narrower than ${
+                  projectNodeRange ? 'the project' : from
+                }'s ${baseline}`
+              : ''
+          }.`
+        );
+      }
+    }
+    // Any other engines change (npm, yarn, a wider node range) still needs a look
+    const changedEngines = Object.keys({
+      ...change.enginesChange?.added,
+      ...change.enginesChange?.removed,
+      ...change.enginesChange?.changed
+    }).filter(engine => !(engine === 'node' && requiresNewerNode));
+    if (changedEngines.length > 0) {
+      reasons.push(
+        `Changes engines requirements for ${changedEngines.join(', ')}.`
+      );
+    }
+    const peerConflicts: string[] = [];
+    for (const [peer, peerRange] of Object.entries(
+      target.peerDependencies || {}
+    )) {
+      if (target.peerDependenciesMeta?.[peer]?.optional) {
+        continue;
+      }
+      const peerVersion =
+        installedVersions.get(peer) ??
+        getInstalledDependencyVersion(projectPath, lockfile, peer);
+      if (!peerVersion) {
+        if (!currentManifest?.peerDependencies?.[peer]) {
+          peerConflicts.push(
+            `Requires peer ${peer}@${peerRange}, which is not installed.`
+          );
+        }
+      } else if (
+        !semver.satisfies(peerVersion, peerRange, { includePrerelease: true })
+      ) {
+        const resolvingChange = candidates.find(
+          candidate =>
+            candidate.dependency.name === peer &&
+            semver.satisfies(candidate.target.version, peerRange, {
+              includePrerelease: true
+            })
+        );
+        peerConflicts.push(
+          `Requires peer ${peer}@${peerRange}, but ${peer}@${peerVersion} is installed${
+            resolvingChange
+              ? ` (upgrading ${peer} to ${resolvingChange.target.version} as planned here resolves it)`
+              : ''
+          }.`
+        );
+      }
+    }
+    if (peerConflicts.length > 0) {
+      change.peerConflicts = peerConflicts;
+      reasons.push(...peerConflicts);
+    } else if (change.peerDependencyChanges) {
+      reasons.push('Peer dependency ranges changed.');
+    }
+    if (reasons.length > 0) {
+      change.reasons = reasons;
+      risky.push(change);
+    } else {
+      safe.push(change);
+    }
+  }
+
+  // The patch applies every safe change, and the newest risky change per dependency when asked for
+  const applied = new Map<string, McpUpgradeChange>();
+  for (const change of [...safe, ...(options.includeRisky ? risky : [])]) {
+    const previous = applied.get(change.name);
+    if (!previous || semver.gt(change.to, previous.to)) {
+      applied.set(change.name, change);
+    }
+  }
+  const originalText = fs.readFileSync(manifestPath, 'utf-8');
+  const edited = JSON.parse(originalText);
+  for (const change of applied.values()) {
+    for (const group of [
+      'dependencies',
+      'devDependencies',
+      'optionalDependencies'
+    ]) {
+      if (edited[group]?.[change.name] !== undefined) {
+        edited[group][change.name] = change.newRange;
+      }
+    }
+  }
+  const indent = /^[ \t]+(?=")/m.exec(originalText)?.[0] ?? 2;
+  const packageJson = `${JSON.stringify(edited, null, indent)}${
+    originalText.endsWith('\n') ? '\n' : ''
+  }`;
+
+  const allChanges = [...safe, ...risky];
+  const byName = (left: McpUpgradeChange, right: McpUpgradeChange) =>
+    left.name.localeCompare(right.name);
+  return {
+    projectPath,
+    lockfile: lockfile?.lockfilePath,
+    plannedAt: new Date().toISOString(),
+    summary: {
+      total: directDependencies.length,
+      safe: safe.length,
+      risky: risky.length,
+      upToDate,
+      skipped: skipped.length,
+      advisoriesFixed: new Set(
+        allChanges.flatMap(change =>
+          change.advisoriesFixed.map(advisory => advisory.advisoryId)
+        )
+      ).size,
+      deprecationsRemoved: new Set(
+        allChanges.flatMap(change => change.deprecationsRemoved)
+      ).size
+    },
+    safe: safe.sort(byName),
+    risky: risky.sort(byName),
+    skipped,
+    advisoryError,
+    packageJsonPatch:
+      packageJson !== originalText
+        ? createUnifiedDiff('package.json', originalText, packageJson)
+        : undefined,
+    packageJson
+  };
+};
+
+// --- Peer Dependencies ---
+
+const findPeerProvider = (
+  graph: Pick<ParsedLockfile, 'directDependencies' | 'packages'>,
+  pkg: LockfilePackage,
+  peerName: string
+): LockfilePackage | undefined => {
+  // npm and pnpm record the resolved peer as an edge; otherwise look it up like Node would
+  const edge = pkg.dependencies
+    .map(id => graph.packages.get(id))
+    .find(child => child?.name === peerName);
+  if (edge) {
+    return edge;
+  }
+  const nestedId = resolveNodeModulesPath(
+    graph.packages,
+    new Map(),
+    pkg.id,
+    peerName
+  );
+  if (nestedId) {
+    return graph.packages.get(nestedId);
+  }
+  const directId = graph.directDependencies.find(
+    dependency => dependency.name === peerName
+  )?.id;
+  if (directId) {
+    return graph.packages.get(directId);
+  }
+  const copies = Array.from(graph.packages.values()).filter(
+    candidate => candidate.name === peerName
+  );
+  return copies.length === 1 ? copies[0] : undefined;
+};
+
+// Fetches each packument once, with limited concurrency; failures surface where the packument is awaited
+const createPackumentLoader = () => {
+  const limit = createConcurrencyLimiter(DEFAULT_REGISTRY_CONCURRENCY);
+  const packuments = new Map<string, Promise<NpmRegistryPackageInfo>>();
+  return (name: string): Promise<NpmRegistryPackageInfo> => {
+    let packument = packuments.get(name);
+    if (!packument) {
+      packument = limit(() => fetchPackageData(encodePackageName(name))).then(
+        response => response.data
+      );
+      packument.catch(() => undefined);
+      packuments.set(name, packument);
+    }
+    return packument;
+  };
+};
+
+const getInstallableVersions = (
+  rawData: NpmRegistryPackageInfo
+): NpmPackageVersionManifest[] =>
+  Object.values(rawData.versions || {})
+    .filter(
+      version =>
+        semver.valid(version.version) &&
+        !semver.prerelease(version.version) &&
+        !version.deprecated
+    )
+    .sort((left, right) => semver.rcompare(left.version, right.version));
+
+const checkPeerDependencies = async (
+  projectPath: string,
+  options: { add?: string[]; includeDevDependencies?: boolean }
+): Promise<McpPeerReportData> => {
+  const manifest = readProjectManifest(projectPath);
+  if (!manifest) {
+    throw new Error(`No package.json found in '${projectPath}'.`);
+  }
+  const lockfile = tryReadProjectLockfile(projectPath);
+  const graph = lockfile ?? readInstalledPackages(projectPath);
+  const rootLabel = manifest.name || path.basename(projectPath);
+  const getPackument = createPackumentLoader();
+
+  const additions = await Promise.all(
+    (options.add || []).map(async descriptor => {
+      const { name, range } = splitPackageDescriptor(descriptor.trim());
+      const rawData = await getPackument(name);
+      return {
+        name,
+        range: range || 'latest',
+        version: resolvePackageVersion(rawData, range || 'latest').version
+      };
+    })
+  );
+  const addedVersions = new Map(
+    additions.map(addition => [addition.name, addition.version])
+  );
+  const getRootId = (name: string) =>
+    graph.directDependencies.find(dependency => dependency.name === name)?.id ??
+    (graph.packages.has(`node_modules/${name}`)
+      ? `node_modules/${name}`
+      : undefined);
+
+  // Packages to check: the installed tree plus the proposed additions, which replace the top-level copy
+  const { paths, order } = getShortestDependencyPaths(
+    graph,
+    rootLabel,
+    options.includeDevDependencies ?? true
+  );
+  const dependents: Array<{
+    pkg: Pick<LockfilePackage, 'id' | 'name' | 'version'>;
+    path: string[];
+  }> = additions.map(addition => ({
+    pkg: { id: '', name: addition.name, version: addition.version },
+    path: [rootLabel, `${addition.name}@${addition.version} (to be added)`]
+  }));
+  const seen = new Set<string>();
+  for (const id of order) {
+    const pkg = graph.packages.get(id)!;
+    if (
+      pkg.local ||
+      classifyResolvedSource(pkg.resolved) !== 'registry' ||
+      (addedVersions.has(pkg.name) && id === getRootId(pkg.name)) ||
+      seen.has(`${pkg.name}@${pkg.version}`)
+    ) {
+      continue;
+    }
+    seen.add(`${pkg.name}@${pkg.version}`);
+    dependents.push({ pkg, path: paths.get(id)! });
+  }
+
+  const getProvidedVersion = (
+    pkg: Pick<LockfilePackage, 'id' | 'name' | 'version'>,
+    peerName: string
+  ): string | undefined => {
+    const installed = graph.packages.get(pkg.id);
+    const provider = installed
+      ? findPeerProvider(graph, installed, peerName)
+      : graph.packages.get(getRootId(peerName) ?? '');
+    if (
+      addedVersions.has(peerName) &&
+      (!provider || provider.id === getRootId(peerName))
+    ) {
+      return addedVersions.get(peerName);
+    }
+    return provider?.version;
+  };
+
+  const problems: McpPeerProblem[] = [];
+  const errors: NonNullable<McpPeerReportData['errors']> = [];
+  const constraints = new Map<string, McpPeerResolution['constraints']>();
+  await Promise.all(
+    dependents.map(async ({ pkg, path: dependencyPath }) => {
+      let rawData: NpmRegistryPackageInfo;
+      try {
+        rawData = await getPackument(pkg.name);
+      } catch (error) {
+        errors.push({
+          package: `${pkg.name}@${pkg.version}`,
+          error: (error as Error).message
+        });
+        return;
+      }
+      const versionManifest = rawData.versions?.[pkg.version];
+      for (const [peer, range] of Object.entries(
+        versionManifest?.peerDependencies || {}
+      )) {
+        const optional =
+          !!versionManifest?.peerDependenciesMeta?.[peer]?.optional;
+        const provided = getProvidedVersion(pkg, peer);
+        if (provided || !optional) {
+          constraints.set(peer, [
+            ...(constraints.get(peer) || []),
+            { requiredBy: `${pkg.name}@${pkg.version}`, range }
+          ]);
+        }
+        let kind: PeerProblemKind | undefined;
+        if (!provided) {
+          kind = optional ? 'optional-missing' : 'unmet';
+        } else if (
+          !semver.satisfies(provided, range, { includePrerelease: true })
+        ) {
+          kind = 'conflict';
+        }
+        if (!kind) {
+          continue;
+        }
+        const problem: McpPeerProblem = {
+          kind,
+          package: `${pkg.name}@${pkg.version}`,
+          peer,
+          range,
+          provided,
+          path: dependencyPath
+        };
+        if (kind === 'conflict') {
+          problem.compatibleDependentVersion = getInstallableVersions(
+            rawData
+          ).find(version => {
+            // Releases from before the peer was declared say nothing about compatibility
+            const peerRange = version.peerDependencies?.[peer];
+            return (
+              !!peerRange &&
+              semver.satisfies(provided as string, peerRange, {
+                includePrerelease: true
+              })
+            );
+          })?.version;
+        }
+        problems.push(problem);
+      }
+    })
+  );
+
+  // For each peer with a problem, find the newest release that every dependent (and the project) accepts
+  const problemPeers = Array.from(
+    new Set(
+      problems
+        .filter(problem => problem.kind !== 'optional-missing')
+        .map(problem => problem.peer)
+    )
+  );
+  const resolutions = await Promise.all(
+    problemPeers.map(async (peer): Promise<McpPeerResolution> => {
+      const peerConstraints = [...(constraints.get(peer) || [])];
+      const addition = additions.find(candidate => candidate.name === peer);
+      const declared = getManifestDirectDependencies(manifest).find(
+        dependency => dependency.name === peer
+      );
+      // A dist-tag like 'latest' is not a range, so it leaves the peer unconstrained
+      if (addition) {
+        if (semver.validRange(addition.range)) {
+          peerConstraints.push({
+            requiredBy: rootLabel,
+            range: addition.range
+          });
+        }
+      } else if (declared && semver.validRange(declared.range)) {
+        peerConstraints.push({ requiredBy: rootLabel, range: declared.range });
+      }
+      const resolution: McpPeerResolution = {
+        peer,
+        constraints: peerConstraints
+      };
+      try {
+        resolution.highestSatisfying = getInstallableVersions(
+          await getPackument(peer)
+        ).find(version =>
+          peerConstraints.every(constraint =>
+            semver.satisfies(version.version, constraint.range)
+          )
+        )?.version;
+      } catch (error) {
+        errors.push({ package: peer, error: (error as Error).message });
+      }
+      return resolution;
+    })
+  );
+
+  const kindOrder: PeerProblemKind[] = [
+    'conflict',
+    'unmet',
+    'optional-missing'
+  ];
+  problems.sort(
+    (left, right) =>
+      kindOrder.indexOf(left.kind) - kindOrder.indexOf(right.kind) ||
+      left.peer.localeCompare(right.peer) ||
+      left.package.localeCompare(right.package)
+  );
+  return {
+    projectPath,
+    lockfile: lockfile?.lockfilePath,
+    checkedAt: new Date().toISOString(),
+    additions,
+    summary: {
+      packagesChecked: dependents.length,
+      unmet: problems.filter(problem => problem.kind === 'unmet').length,
+      conflicts: problems.filter(problem => problem.kind === 'conflict').length,
+      optionalMissing: problems.filter(
+        problem => problem.kind === 'optional-missing'
+      ).length,
+      errors: errors.length
+    },
+    problems,
+    resolutions,
+    errors: errors.length > 0 ? errors : undefined
+  };
+};
+
+// --- Deprecations ---
+
+// Only names written as a package count: quoted, scoped or followed by "package".
+// A bare word like "use fetch" or "use the URLSearchParams API" is usually prose.
+const REPLACEMENT_PATTERN =
+  /\b(?:use|using|replaced by|moved to|renamed to|switch to|migrate to|superseded by|in favou?r of)\s+(?:the\s+)?(?:([`'"])(@?[\w.\/-]+)\1|(@[\w.-]+\/[\w.-]+)|([\w.-]+)\s+package\b)/gi;
+// Words that follow "use ..." in deprecation messages without naming a package
+const REPLACEMENT_STOPWORDS = new Set([
+  'a',
+  'an',
+  'at',
+  'it',
+  'its',
+  'this',
+  'that',
+  'your',
+  'our',
+  'native',
+  'built-in',
+  'builtin',
+  'node',
+  'npm',
+  'version',
+  'versions',
+  'latest',
+  'newer',
+  'new',
+  'instead',
+  'own',
+  'risk',
+  'https',
+  'http',
+  'v1',
+  'v2',
+  'v3',
+  'v4'
+]);
+
+const getReplacementCandidates = (
+  message: string,
+  packageName: string
+): string[] => {
+  const candidates: string[] = [];
+  for (const match of message.matchAll(REPLACEMENT_PATTERN)) {
+    const name = (match[2] || match[3] || match[4]).replace(/[.,;:]+$/, '');
+    if (
+      // Package names are lowercase, so 'URLSearchParams' is never one
+      name === name.toLowerCase() &&
+      !REPLACEMENT_STOPWORDS.has(name) &&
+      !/^v?\d/.test(name) &&
+      name !== packageName &&
+      !candidates.includes(name)
+    ) {
+      candidates.push(name);
+    }
+  }
+  return candidates;
+};
+
+const findDeprecatedDependencies = async (
+  projectPath: string,
+  options: { includeDevDependencies?: boolean }
+): Promise<McpDeprecationReportData> => {
+  const manifest = readProjectManifest(projectPath);
+  if (!manifest) {
+    throw new Error(`No package.json found in '${projectPath}'.`);
+  }
+  const lockfile = tryReadProjectLockfile(projectPath);
+  const graph = lockfile ?? readInstalledPackages(projectPath);
+  const { paths, order } = getShortestDependencyPaths(
+    graph,
+    manifest.name || path.basename(projectPath),
+    options.includeDevDependencies ?? true
+  );
+  const directIds = new Set(
+    graph.directDependencies.map(dependency => dependency.id)
+  );
+
+  // One lookup per name@version, keeping the first (shortest) path and counting the other copies
+  const unique = new Map<
+    string,
+    {
+      pkg: LockfilePackage;
+      path: string[];
+      occurrences: number;
+      direct: boolean;
+    }
+  >();
+  for (const id of order) {
+    const pkg = graph.packages.get(id)!;
+    if (pkg.local || classifyResolvedSource(pkg.resolved) !== 'registry') {
+      continue;
+    }
+    const key = `${pkg.name}@${pkg.version}`;
+    const existing = unique.get(key);
+    if (existing) {
+      existing.occurrences++;
+      existing.direct = existing.direct || directIds.has(id);
+    } else {
+      unique.set(key, {
+        pkg,
+        path: paths.get(id)!,
+        occurrences: 1,
+        direct: directIds.has(id)
+      });
+    }
+  }
+
+  const getPackument = createPackumentLoader();
+  const errors: NonNullable<McpDeprecationReportData['errors']> = [];
+  const deprecated = (
+    await Promise.all(
+      Array.from(unique.values()).map(
+        async (entry): Promise<McpDeprecatedEntry | undefined> => {
+          const { pkg } = entry;
+          let rawData: NpmRegistryPackageInfo;
+          try {
+            rawData = await getPackument(pkg.name);
+          } catch (error) {
+            errors.push({
+              package: `${pkg.name}@${pkg.version}`,
+              error: (error as Error).message
+            });
+            return undefined;
+          }
+          const message = rawData.versions?.[pkg.version]?.deprecated;
+          if (!message) {
+            return undefined;
+          }
+          const result: McpDeprecatedEntry = {
+            name: pkg.name,
+            version: pkg.version,
+            message,
+            direct: entry.direct,
+            path: entry.path,
+            occurrences: entry.occurrences,
+            nonDeprecatedVersion: getInstallableVersions(rawData).find(
+              version => semver.gt(version.version, pkg.version)
+            )?.version
+          };
+          // Only suggest names that are actually published
+          for (const candidate of getReplacementCandidates(message, pkg.name)) {
+            try {
+              await getPackument(candidate);
+              result.suggestedReplacement = candidate;
+              break;
+            } catch {
+              // Not a published package
+            }
+          }
+          return result;
+        }
+      )
+    )
+  )
+    .filter((entry): entry is McpDeprecatedEntry => !!entry)
+    .sort(
+      (left, right) =>
+        Number(right.direct) - Number(left.direct) ||
+        left.name.localeCompare(right.name)
+    );
+
+  return {
+    projectPath,
+    lockfile: lockfile?.lockfilePath,
+    checkedAt: new Date().toISOString(),
+    summary: {
+      packagesChecked: unique.size,
+      deprecated: deprecated.length,
+      direct: deprecated.filter(entry => entry.direct).length,
+      errors: errors.length
+    },
+    deprecated,
+    errors: errors.length > 0 ? errors : undefined
+  };
+};
+
+// --- Bundle Size Estimation ---
+
+const DEFAULT_BUNDLE_MAX_PACKAGES = 150;
+const BUNDLE_TOP_CONTRIBUTORS = 10;
+// Conditions a browser bundler matches in "exports", in order of preference
+const BUNDLE_CONDITIONS = ['browser', 'import', 'module', 'default'];
+const BUNDLE_EXTENSIONS = ['', '.js', '.mjs', '.cjs', '.json'];
+const BUNDLE_MODULE_PATTERN = /\.(m|c)?js$|\.json$/;
+// Static import/export-from, side-effect imports, require() and import() with a literal specifier
+const IMPORT_SPECIFIER_PATTERN =
+  /(?:\bimport\s*(?:[\w*${}\s,]+\bfrom\s*)?|\bexport\s*[\w*${}\s,]*\bfrom\s*|\brequire\s*\(\s*|\bimport\s*\(\s*)(['"])([^'"\s]+)\1/g;
+
+const BUNDLE_SIZE_NOTES = [
+  'No tree-shaking: every module reachable through static import, export-from, require() or import() with a literal specifier is counted in full.',
+  'No minification is applied; sizes are those of the published files, which may or may not be minified already.',
+  'gzip is measured over all counted modules concatenated; bundler runtime code and module wrappers are not included.',
+  'Computed requires are not followed. Where an entry file picks a build with process.env.NODE_ENV, only the production build is counted; other conditional requires are all counted.',
+  'Node.js built-in modules and peer dependencies are left out; bundlers may polyfill or stub built-ins, and the application provides its peers.',
+  'CSS, images, WASM and other assets are not counted in the bundle size, only in the install size.',
+  'Each dependency is resolved to the newest version matching its range, without the deduplication a real install would do.'
+];
+
+// Resolves an "exports" subpath for the given conditions (exact keys and single "*" patterns)
+const resolveExportsTarget = (
+  exportsField: unknown,
+  subpath: string,
+  conditions: string[]
+): string | undefined => {
+  const isSubpathMap =
+    !!exportsField &&
+    typeof exportsField === 'object' &&
+    !Array.isArray(exportsField) &&
+    Object.keys(exportsField).some(key => key.startsWith('.'));
+  let value: unknown;
+  let wildcard: string | undefined;
+  if (!isSubpathMap) {
+    value = subpath === '.' ? exportsField : undefined;
+  } else {
+    const entries = exportsField as { [key: string]: unknown };
+    if (subpath in entries) {
+      value = entries[subpath];
+    } else {
+      for (const [key, target] of Object.entries(entries)) {
+        const starIndex = key.indexOf('*');
+        if (
+          starIndex !== -1 &&
+          subpath.startsWith(key.substring(0, starIndex)) &&
+          subpath.endsWith(key.substring(starIndex + 1)) &&
+          subpath.length >= key.length - 1
+        ) {
+          value = target;
+          wildcard = subpath.substring(
+            starIndex,
+            subpath.length - (key.length - starIndex - 1)
+          );
+          break;
+        }
+      }
+    }
+  }
+  const pick = (candidate: unknown): string | undefined => {
+    if (typeof candidate === 'string') {
+      return candidate;
+    }
+    if (Array.isArray(candidate)) {
+      for (const fallback of candidate) {
+        const target = pick(fallback);
+        if (target) {
+          return target;
+        }
+      }
+      return undefined;
+    }
+    if (candidate && typeof candidate === 'object') {
+      // Condition keys are tried in the order the package lists them
+      for (const [condition, nested] of Object.entries(candidate)) {
+        if (conditions.includes(condition)) {
+          const target = pick(nested);
+          if (target) {
+            return target;
+          }
+        }
+      }
+    }
+    return undefined;
+  };
+  const target = pick(value);
+  return target && wildcard !== undefined
+    ? target.split('*').join(wildcard)
+    : target;
+};
+
+const findBundleFile = (
+  files: Map<string, Buffer>,
+  filePath: string
+): string | undefined => {
+  const normalized = path.posix.normalize(filePath).replace(/^(\.\/)+/, '');
+  for (const candidate of [
+    ...BUNDLE_EXTENSIONS.map(extension => `${normalized}${extension}`),
+    ...BUNDLE_EXTENSIONS.slice(1).map(
+      extension => `${normalized}/index${extension}`
+    )
+  ]) {
+    if (files.has(candidate)) {
+      return candidate;
+    }
+  }
+  return undefined;
+};
+
+// The object form of "browser" swaps files or modules for browser builds; false stubs them out
+const getBrowserReplacement = (
+  manifest: NpmPackageVersionManifest,
+  files: Map<string, Buffer>,
+  request: string
+): string | false | undefined => {
+  if (!manifest.browser || typeof manifest.browser !== 'object') {
+    return undefined;
+  }
+  for (const [from, to] of Object.entries(manifest.browser)) {
+    const matches = from.startsWith('.')
+      ? findBundleFile(files, from) === request
+      : from === request;
+    if (matches) {
+      return to;
+    }
+  }
+  return undefined;
+};
+
+const getBundleEntryPoint = (
+  manifest: NpmPackageVersionManifest,
+  files: Map<string, Buffer>,
+  subpath: string
+): NonNullable<McpBundleSizeData['entryPoint']> | undefined => {
+  if (manifest.exports !== undefined) {
+    const target = resolveExportsTarget(
+      manifest.exports,
+      subpath,
+      BUNDLE_CONDITIONS
+    );
+    const file = target ? findBundleFile(files, target) : undefined;
+    // With "exports", anything it does not list cannot be imported
+    return file ? { path: file, resolvedBy: 'exports' } : undefined;
+  }
+  if (subpath !== '.') {
+    const file = findBundleFile(files, subpath);
+    return file ? { path: file, resolvedBy: 'default' } : undefined;
+  }
+  const fields: Array<[string | undefined, 'module' | 'browser' | 'main']> = [
+    [manifest.module, 'module'],
+    [
+      typeof manifest.browser === 'string' ? manifest.browser : undefined,
+      'browser'
+    ],
+    [manifest.main, 'main']
+  ];
+  for (const [field, resolvedBy] of fields) {
+    const file = field ? findBundleFile(files, field) : undefined;
+    if (file) {
+      return { path: file, resolvedBy };
+    }
+  }
+  const file = findBundleFile(files, 'index');
+  return file ? { path: file, resolvedBy: 'default' } : undefined;
+};
+
+const estimateBundleSize = async (
+  packageName: string,
+  versionSpec: string,
+  options: { exportPath?: string; maxPackages?: number }
+): Promise<McpBundleSizeData> => {
+  const maxPackages = options.maxPackages ?? DEFAULT_BUNDLE_MAX_PACKAGES;
+  const closure = await resolveDependencyTree(
+    packageName,
+    versionSpec,
+    Number.MAX_SAFE_INTEGER,
+    DEFAULT_REGISTRY_CONCURRENCY
+  );
+  const rootKey = `${closure.name}@${closure.version}`;
+
+  // Which version each package gets for each of its dependencies, from the first expanded copy
+  const dependencyVersions = new Map<string, Map<string, string>>();
+  const collectVersions = (node: McpDependencyTreeNode) => {
+    const key = `${node.name}@${node.version}`;
+    if (node.version && node.dependencies && !dependencyVersions.has(key)) {
+      dependencyVersions.set(
+        key,
+        new Map(
+          node.dependencies
+            .filter(child => child.version)
+            .map(child => [child.name, child.version as string])
+        )
+      );
+    }
+    node.dependencies?.forEach(collectVersions);
+  };
+  collectVersions(closure.tree!);
+
+  const packageKeys = [
+    rootKey,
+    ...(closure.packages || []).map(pkg => `${pkg.name}@${pkg.version}`)
+  ];
+  const truncated = packageKeys.length > maxPackages;
+  const limit = createConcurrencyLimiter(DEFAULT_REGISTRY_CONCURRENCY);
+  const contents = new Map<
+    string,
+    {
+      manifest: NpmPackageVersionManifest;
+      files: Map<string, Buffer>;
+      installSize: number;
+      fileCount: number;
+    }
+  >();
+  const unresolved = new Set<string>();
+  await Promise.all(
+    packageKeys.slice(0, maxPackages).map(key =>
+      limit(async () => {
+        const separatorIndex = key.lastIndexOf('@');
+        const name = key.substring(0, separatorIndex);
+        const version = key.substring(separatorIndex + 1);
+        try {
+          const { data: rawData } = await fetchPackageData(
+            encodePackageName(name)
+          );
+          const manifest = rawData.versions?.[version];
+          if (!manifest) {
+            throw new Error(`Version ${version} not found.`);
+          }
+          const { tarball } = await fetchPackageTarball(manifest.dist);
+          const { files } = readTarballFiles(tarball, filePath =>
+            BUNDLE_MODULE_PATTERN.test(filePath)
+          );
+          contents.set(key, {
+            manifest,
+            files: new Map(
+              files
+                .filter(file => file.contents)
+                .map(file => [file.path, file.contents as Buffer])
+            ),
+            installSize: files.reduce((total, file) => total + file.size, 0),
+            fileCount: files.length
+          });
+        } catch (error) {
+          if (key === rootKey) {
+            throw error;
+          }
+          unresolved.add(`${key}: ${(error as Error).message}`);
+        }
+      })
+    )
+  );
+
+  // Follow the module graph from the entry point across package boundaries
+  const root = contents.get(rootKey)!;
+  const entryPoint = getBundleEntryPoint(
+    root.manifest,
+    root.files,
+    options.exportPath ?? '.'
+  );
+  const modules: Array<{ key: string; path: string; contents: Buffer }> = [];
+  const builtins = new Set<string>();
+  if (entryPoint) {
+    const visited = new Set<string>();
+    const queue: Array<{ key: string; path: string }> = [
+      { key: rootKey, path: entryPoint.path }
+    ];
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      const moduleId = `${current.key}:${current.path}`;
+      if (visited.has(moduleId)) {
+        continue;
+      }
+      visited.add(moduleId);
+      const pkg = contents.get(current.key)!;
+      const replacement = getBrowserReplacement(
+        pkg.manifest,
+        pkg.files,
+        current.path
+      );
+      if (replacement === false) {
+        continue;
+      }
+      const replacementFile = replacement
+        ? findBundleFile(pkg.files, replacement)
+        : undefined;
+      if (replacementFile && replacementFile !== current.path) {
+        queue.push({ key: current.key, path: replacementFile });
+        continue;
+      }
+      const source = pkg.files.get(current.path)!;
+      modules.push({ ...current, contents: source });
+      if (current.path.endsWith('.json')) {
+        continue;
+      }
+      const text = source.toString('utf-8');
+      let specifiers = Array.from(
+        text.matchAll(IMPORT_SPECIFIER_PATTERN),
+        match => match[2]
+      );
+      // Entry files that pick a build with process.env.NODE_ENV only contribute the production one
+      if (
+        text.includes('process.env.NODE_ENV') &&
+        specifiers.some(specifier => /production|\.min\.js$/.test(specifier))
+      ) {
+        specifiers = specifiers.filter(
+          specifier => !/development/.test(specifier)
+        );
+      }
+      for (let specifier of specifiers) {
+        const specifierReplacement = getBrowserReplacement(
+          pkg.manifest,
+          pkg.files,
+          specifier
+        );
+        if (specifierReplacement === false) {
+          continue;
+        }
+        if (specifierReplacement) {
+          specifier = specifierReplacement;
+        }
+        if (specifier.startsWith('.') || specifier.startsWith('/')) {
+          const file = findBundleFile(
+            pkg.files,
+            specifierReplacement
+              ? specifier
+              : path.posix.join(path.posix.dirname(current.path), specifier)
+          );
+          if (file) {
+            queue.push({ key: current.key, path: file });
+          }
+          continue;
+        }
+        if (
+          specifier.startsWith('node:') ||
+          builtinModules.includes(specifier.split('/')[0])
+        ) {
+          builtins.add(specifier.replace(/^node:/, ''));
+          continue;
+        }
+        const parts = specifier.split('/');
+        const dependencyName = specifier.startsWith('@')
+          ? parts.slice(0, 2).join('/')
+          : parts[0];
+        const subpath = `.${specifier.substring(dependencyName.length)}`;
+        // Peer dependencies, including optional ones, are provided by the application
+        if (
+          pkg.manifest.peerDependencies?.[dependencyName] !== undefined ||
+          pkg.manifest.peerDependenciesMeta?.[dependencyName] !== undefined
+        ) {
+          continue;
+        }
+        const dependencyKey =
+          dependencyName === pkg.manifest.name
+            ? current.key
+            : `${dependencyName}@${dependencyVersions
+                .get(current.key)
+                ?.get(dependencyName)}`;
+        const dependency = contents.get(dependencyKey);
+        const target = dependency
+          ? getBundleEntryPoint(dependency.manifest, dependency.files, subpath)
+          : undefined;
+        if (target) {
+          queue.push({ key: dependencyKey, path: target.path });
+        } else {
+          unresolved.add(`${specifier} (from ${current.key})`);
+        }
+      }
+    }
+  }
+
+  const byPackage = new Map<string, { bytes: number; modules: number }>();
+  for (const module of modules) {
+    const totals = byPackage.get(module.key) || { bytes: 0, modules: 0 };
+    totals.bytes += module.contents.length;
+    totals.modules++;
+    byPackage.set(module.key, totals);
+  }
+  const bundleRaw = modules.reduce(
+    (total, module) => total + module.contents.length,
+    0
+  );
+  const topContributors = Array.from(contents.entries())
+    .map(([key, pkg]): McpBundleContributor => {
+      const totals = byPackage.get(key) || { bytes: 0, modules: 0 };
+      return {
+        name: pkg.manifest.name,
+        version: pkg.manifest.version,
+        bundleBytes: totals.bytes,
+        bundleShare:
+          bundleRaw > 0
+            ? Math.round((totals.bytes / bundleRaw) * 1000) / 10
+            : 0,
+        modules: totals.modules,
+        installSize: pkg.installSize
+      };
+    })
+    .sort(
+      (left, right) =>
+        right.bundleBytes - left.bundleBytes ||
+        right.installSize - left.installSize
+    )
+    .slice(0, BUNDLE_TOP_CONTRIBUTORS);
+
+  const notes = [...BUNDLE_SIZE_NOTES];
+  if (!entryPoint) {
+    notes.unshift(
+      `No JavaScript entry point found for '${
+        options.exportPath ?? '.'
+      }'; only the install size is reported.`
+    );
+  }
+  if (truncated) {
+    notes.unshift(
+      `The dependency closure has ${packageKeys.length} packages; only the first ${maxPackages} (closest to the root) were downloaded, so both sizes are underestimated.`
+    );
+  }
+  const entrySource = entryPoint ? root.files.get(entryPoint.path) : undefined;
+  return {
+    name: closure.name,
+    version: closure.version,
+    entryPoint,
+    entry: entrySource
+      ? { raw: entrySource.length, gzip: zlib.gzipSync(entrySource).length }
+      : undefined,
+    bundle: {
+      raw: bundleRaw,
+      gzip:
+        modules.length > 0
+          ? zlib.gzipSync(Buffer.concat(modules.map(module => module.contents)))
+              .length
+          : 0,
+      modules: modules.length,
+      packages: byPackage.size
+    },
+    install: {
+      size: Array.from(contents.values()).reduce(
+        (total, pkg) => total + pkg.installSize,
+        0
+      ),
+      files: Array.from(contents.values()).reduce(
+        (total, pkg) => total + pkg.fileCount,
+        0
+      ),
+      packages: contents.size
+    },
+    topContributors,
+    builtinModules: builtins.size > 0 ? Array.from(builtins).sort() : undefined,
+    unresolved: unresolved.size > 0 ? Array.from(unresolved) : undefined,
+    truncated,
+    notes,
+    source: getPackageSourceUrl(packageName)
+  };
+};
+
+// --- Scope and Maintainer Listings ---
+
+const listOwnerPackages = async (
+  kind: McpPackageListData['kind'],
+  rawOwner: string,
+  size: number,
+  from: number
+): Promise<McpPackageListData> => {
+  const owner = rawOwner.trim().replace(/^@/, '');
+  const registryUrl =
+    kind === 'scope'
+      ? getRegistryUrlForPackage(`@${owner}/`)
+      : registryConfig.registry;
+  // A scope belongs to either an organization or a user account
+  const endpoints: Array<['org' | 'user', string]> =
+    kind === 'scope'
+      ? [
+          ['org', `${registryUrl}/-/org/${encodeURIComponent(owner)}/package`],
+          ['user', `${registryUrl}/-/user/${encodeURIComponent(owner)}/package`]
+        ]
+      : [
+          ['user', `${registryUrl}/-/user/${encodeURIComponent(owner)}/package`]
+        ];
+
+  for (const [listedBy, apiUrl] of endpoints) {
+    console.error(
+      `[${new Date().toISOString()}] Listing packages from: ${apiUrl}`
+    );
+    let response: CachedResponse<{ [name: string]: string }>;
+    try {
+      response = await cachedGet<{ [name: string]: string }>(
+        apiUrl,
+        getRegistryRequestHeaders(apiUrl)
+      );
+    } catch (error) {
+      console.error(
+        `[${new Date().toISOString()}] ${
+          toNpmApiError(error, `${listedBy} packages`).message
+        }`
+      );
+      continue;
+    }
+    const names = Object.keys(response.data || {})
+      .filter(name => kind !== 'scope' || name.startsWith(`@${owner}/`))
+      .sort();
+    if (names.length === 0) {
+      continue;
+    }
+    const limit = createConcurrencyLimiter(DEFAULT_REGISTRY_CONCURRENCY);
+    const errors: NonNullable<McpPackageListData['errors']> = [];
+    const cacheStatuses: CacheStatus[] = [response.cacheStatus];
+    const packages = (
+      await Promise.all(
+        names.slice(from, from + size).map(async name => {
+          try {
+            const { data: rawData, cacheStatus } = await limit(() =>
+              fetchPackageData(encodePackageName(name))
+            );
+            cacheStatuses.push(cacheStatus);
+            return transformDataForSummary(rawData, getPackageSourceUrl(name));
+          } catch (error) {
+            errors.push({ package: name, error: (error as Error).message });
+            return undefined;
+          }
+        })
+      )
+    ).filter((entry): entry is McpSummaryData => !!entry);
+    return {
+      kind,
+      owner,
+      listedBy,
+      total: names.length,
+      from,
+      size,
+      packages,
+      errors: errors.length > 0 ? errors : undefined,
+      source: apiUrl,
+      cache: combineCacheStatuses(cacheStatuses)
+    };
+  }
+
+  // Registries without the access endpoints (or unknown owners) fall back to the search qualifiers
+  const searchData = await searchPackages(
+    buildSearchQuery(
+      kind === 'scope' ? { scope: owner } : { maintainer: owner }
+    ),
+    size,
+    from,
+    kind === 'scope' ? owner : undefined
+  );
+  return {
+    kind,
+    owner,
+    listedBy: 'search',
+    total: searchData.total,
+    from,
+    size,
+    packages: searchData.results.map(
+      ({ keywords: _keywords, scores: _scores, ...summary }) => summary
+    ),
+    source: searchData.source,
+    cache: searchData.cache
+  };
+};
+
+// --- MCP Server Implementation ---
+
+// --- Zod Schemas for Tool Arguments ---
+const PackageNameArgsSchema = z.object({
+  packageName: z.string().min(1, 'Package name cannot be empty')
+});
+type PackageNameArgs = z.infer<typeof PackageNameArgsSchema>;
+
+const PackageDownloadsArgsSchema = z.object({
+  packageName: z.string().min(1, 'Package name cannot be empty').optional(),
+  packageNames: z
+    .array(z.string().min(1, 'Package name cannot be empty'))
+    .optional(),
+  period: z.enum(['last-day', 'last-week', 'last-month']).optional()
+});
+type PackageDownloadsArgs = z.infer<typeof PackageDownloadsArgsSchema>;
+
+const NpmAuditArgsSchema = z.object({
+  projectPath: z.string().min(1, 'Project path cannot be empty')
+});
+type NpmAuditArgs = z.infer<typeof NpmAuditArgsSchema>;
+
+const SimulateNpmAuditFixArgsSchema = z.object({
+  projectPath: z.string().min(1, 'Project path cannot be empty')
+});
+type SimulateNpmAuditFixArgs = z.infer<typeof SimulateNpmAuditFixArgsSchema>;
+
+const SearchPackagesArgsSchema = z.object({
+  text: z.string().optional(),
+  keywords: z.array(z.string().min(1)).optional(),
+  author: z.string().optional(),
+  maintainer: z.string().optional(),
+  scope: z.string().optional(),
+  size: z.number().int().min(1).max(250).optional(),
+  from: z.number().int().min(0).optional()
+});
+type SearchPackagesArgs = z.infer<typeof SearchPackagesArgsSchema>;
+
+const PackageVersionArgsSchema = z.object({
+  packageName: z.string().min(1, 'Package name cannot be empty'),
+  version: z.string().optional()
+});
+type PackageVersionArgs = z.infer<typeof PackageVersionArgsSchema>;
+
+const DependencyTreeArgsSchema = z.object({
+  packageName: z.string().min(1, 'Package name cannot be empty'),
+  version: z.string().optional(),
+  maxDepth: z.number().int().min(1).max(50).optional(),
+  format: z.enum(['tree', 'flat']).optional()
+});
+type DependencyTreeArgs = z.infer<typeof DependencyTreeArgsSchema>;
+
+const AnalyzeLockfileArgsSchema = z.object({
+  projectPath: z.string().min(1, 'Project path cannot be empty')
+});
+type AnalyzeLockfileArgs = z.infer<typeof AnalyzeLockfileArgsSchema>;
+
+const CheckOutdatedArgsSchema = z.object({
+  projectPath: z.string().min(1, 'Project path cannot be empty'),
+  includeDevDependencies: z.boolean().optional()
+});
+type CheckOutdatedArgs = z.infer<typeof CheckOutdatedArgsSchema>;
+
+const AuditPackagesArgsSchema = z.object({
+  packages: z.array(z.string().min(1)).optional(),
+  lockfilePath: z.string().optional(),
+  includePatchedVersions: z.boolean().optional()
+});
+type AuditPackagesArgs = z.infer<typeof AuditPackagesArgsSchema>;
+
+const DownloadHistoryArgsSchema = z.object({
+  packageName: z.string().min(1, 'Package name cannot be empty'),
+  startDate: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'Start date must be YYYY-MM-DD')
+    .refine(isValidDay, 'Start date is not a valid calendar date')
+    .optional(),
+  endDate: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'End date must be YYYY-MM-DD')
+    .refine(isValidDay, 'End date is not a valid calendar date')
+    .optional(),
+  groupBy: z.enum(['day', 'week', 'month']).optional(),
+  movingAverageWindow: z.number().int().min(1).max(52).optional()
+});
+type DownloadHistoryArgs = z.infer<typeof DownloadHistoryArgsSchema>;
+
+const ComparePackagesArgsSchema = z.object({
+  packageNames: z
+    .array(z.string().min(1, 'Package name cannot be empty'))
+    .min(2, 'At least two packages are needed for a comparison')
+    .max(10, 'At most ten packages can be compared at once')
+});
+type ComparePackagesArgs = z.infer<typeof ComparePackagesArgsSchema>;
+
+const PackageReadmeArgsSchema = z.object({
+  packageName: z.string().min(1, 'Package name cannot be empty'),
+  version: z.string().optional(),
+  section: z.string().optional(),
+  maxLength: z.number().int().positive().optional(),
+  includeReadme: z.boolean().optional(),
+  sinceVersion: z.string().optional()
+});
+type PackageReadmeArgs = z.infer<typeof PackageReadmeArgsSchema>;
+
+const InspectTarballArgsSchema = z.object({
+  packageName: z.string().min(1, 'Package name cannot be empty'),
+  version: z.string().optional(),
+  format: z.enum(['tree', 'flat']).optional(),
+  pathPrefix: z.string().optional(),
+  readFiles: z.array(z.string()).max(20).optional(),
+  maxBytesPerFile: z.number().int().positive().optional()
+});
+type InspectTarballArgs = z.infer<typeof InspectTarballArgsSchema>;
+
+const PackageCompatibilityArgsSchema = z.object({
+  packageName: z.string().min(1, 'Package name cannot be empty'),
+  version: z.string().optional()
+});
+type PackageCompatibilityArgs = z.infer<typeof PackageCompatibilityArgsSchema>;
+
+const CheckLicensesArgsSchema = z.object({
+  projectPath: z.string().min(1, 'Project path cannot be empty'),
+  allow: z.array(z.string()).optional(),
+  deny: z.array(z.string()).optional(),
+  includeDevDependencies: z.boolean().optional(),
+  useRegistry: z.boolean().optional(),
+  includeAllPackages: z.boolean().optional()
+});
+type CheckLicensesArgs = z.infer<typeof CheckLicensesArgsSchema>;
+
+const HealthWeightsSchema = z.object({
+  recency: z.number().min(0).optional(),
+  releaseCadence: z.number().min(0).optional(),
+  maintainers: z.number().min(0).optional(),
+  deprecation: z.number().min(0).optional(),
+  dependencies: z.number().min(0).optional(),
+  popularity: z.number().min(0).optional(),
+  downloadTrend: z.number().min(0).optional()
+});
+
+const PackageHealthArgsSchema = z.object({
+  packageName: z.string().min(1, 'Package name cannot be empty'),
+  weights: HealthWeightsSchema.optional()
+});
+type PackageHealthArgs = z.infer<typeof PackageHealthArgsSchema>;
+
+const SupplyChainRiskArgsSchema = z.object({
+  packageName: z.string().min(1, 'Package name cannot be empty'),
+  version: z.string().optional(),
+  compareWith: z.string().optional()
+});
+type SupplyChainRiskArgs = z.infer<typeof SupplyChainRiskArgsSchema>;
+
+const DiffVersionsArgsSchema = z.object({
+  packageName: z.string().min(1, 'Package name cannot be empty'),
+  fromVersion: z.string().min(1, 'Version cannot be empty'),
+  toVersion: z.string().min(1, 'Version cannot be empty'),
+  includeFiles: z.boolean().optional(),
+  diffFiles: z.array(z.string()).max(10).optional(),
+  maxDiffBytes: z.number().int().positive().optional()
+});
+type DiffVersionsArgs = z.infer<typeof DiffVersionsArgsSchema>;
+
+const PlanUpgradesArgsSchema = z.object({
+  projectPath: z.string().min(1, 'Project path cannot be empty'),
+  includeDevDependencies: z.boolean().optional(),
+  includeRisky: z.boolean().optional()
+});
+type PlanUpgradesArgs = z.infer<typeof PlanUpgradesArgsSchema>;
+
+const CheckPeerDependenciesArgsSchema = z.object({
+  projectPath: z.string().min(1, 'Project path cannot be empty'),
+  add: z.array(z.string()).optional(),
+  includeDevDependencies: z.boolean().optional()
+});
+type CheckPeerDependenciesArgs = z.infer<
+  typeof CheckPeerDependenciesArgsSchema
+>;
+
+const FindDeprecatedArgsSchema = z.object({
+  projectPath: z.string().min(1, 'Project path cannot be empty'),
+  includeDevDependencies: z.boolean().optional()
+});
+type FindDeprecatedArgs = z.infer<typeof FindDeprecatedArgsSchema>;
+
+const EstimateBundleSizeArgsSchema = z.object({
+  packageName: z.string().min(1, 'Package name cannot be empty'),
+  version: z.string().optional(),
+  exportPath: z.string().optional(),
+  maxPackages: z.number().int().positive().max(500).optional()
+});
+type EstimateBundleSizeArgs = z.infer<typeof EstimateBundleSizeArgsSchema>;
+
+const ListScopePackagesArgsSchema = z.object({
+  scope: z.string().min(1, 'Scope cannot be empty'),
+  size: z.number().int().min(1).max(250).optional(),
+  from: z.number().int().min(0).optional()
+});
+type ListScopePackagesArgs = z.infer<typeof ListScopePackagesArgsSchema>;
+
+const ListMaintainerPackagesArgsSchema = z.object({
+  username: z.string().min(1, 'Username cannot be empty'),
+  size: z.number().int().min(1).max(250).optional(),
+  from: z.number().int().min(0).optional()
+});
+type ListMaintainerPackagesArgs = z.infer<
+  typeof ListMaintainerPackagesArgsSchema
+>;
+
+// --- Zod Schemas for Prompt Arguments ---
+// Reusing PackageNameArgsSchema for prompts needing only packageName
+// Reusing NpmAuditArgsSchema for prompts needing only projectPath
+// Reusing SimulateNpmAuditFixArgsSchema for prompts needing only projectPath
+
+const GetVersionDateArgsSchema = z.object({
+  packageName: z.string().min(1, 'Package name cannot be empty'),
+  version: z.string().min(1, 'Version cannot be empty') // Basic validation, could be stricter regex
+});
+type GetVersionDateArgs = z.infer<typeof GetVersionDateArgsSchema>;
+
+const GetDownloadsArgsSchema = z.object({
+  packageName: z.string().min(1, 'Package name cannot be empty'),
+  timePeriod: z.enum(['last-day', 'last-week', 'last-month'])
+});
 type GetDownloadsArgs = z.infer<typeof GetDownloadsArgsSchema>;
 
-// --- Tool Implementations ---
+const SearchPromptArgsSchema = z.object({
+  query: z.string().min(1, 'Search query cannot be empty')
+});
+type SearchPromptArgs = z.infer<typeof SearchPromptArgsSchema>;
+
+const ComparePromptArgsSchema = z.object({
+  // Comma-separated, since prompt arguments are plain strings
+  packageNames: z.string().min(1, 'Package names cannot be empty')
+});
+type ComparePromptArgs = z.infer<typeof ComparePromptArgsSchema>;
+
+const ChangelogPromptArgsSchema = z.object({
+  packageName: z.string().min(1, 'Package name cannot be empty'),
+  fromVersion: z.string().min(1, 'Version cannot be empty'),
+  toVersion: z.string().min(1, 'Version cannot be empty')
+});
+type ChangelogPromptArgs = z.infer<typeof ChangelogPromptArgsSchema>;
+
+const PeerDependencyPromptArgsSchema = z.object({
+  projectPath: z.string().min(1, 'Project path cannot be empty'),
+  packageSpec: z.string().min(1, 'Package spec cannot be empty')
+});
+type PeerDependencyPromptArgs = z.infer<typeof PeerDependencyPromptArgsSchema>;
+
+const ScopePromptArgsSchema = z.object({
+  scope: z.string().min(1, 'Scope cannot be empty')
+});
+type ScopePromptArgs = z.infer<typeof ScopePromptArgsSchema>;
+
+// --- Tool Implementations ---
+
+const registerTools = (server: Server): void => {
+  server.tool(
+    'get_npm_package_summary',
+    'Provides essential package details: latest version, description, publish date, license, etc.',
+    PackageNameArgsSchema.shape,
+    async (args: PackageNameArgs): Promise<CallToolResult> => {
+      try {
+        const encodedPackageName = encodePackageName(args.packageName);
+        const { data: rawData, cacheStatus } = await fetchPackageData(
+          encodedPackageName
+        );
+        const sourceUrl = getPackageSourceUrl(args.packageName);
+        const resultData = transformDataForSummary(
+          rawData,
+          sourceUrl,
+          cacheStatus
+        );
+        return {
+          content: [{ type: 'text', text: JSON.stringify(resultData) }]
+        };
+      } catch (error) {
+        console.error(
+          `Error in get_npm_package_summary: ${(error as Error).message}`
+        );
+        throw error; // Re-throw for SDK to handle
+      }
+    }
+  );
+
+  server.tool(
+    'get_npm_package_versions',
+    'Lists available package versions along with their respective publish dates.',
+    PackageNameArgsSchema.shape,
+    async (args: PackageNameArgs): Promise<CallToolResult> => {
+      try {
+        const encodedPackageName = encodePackageName(args.packageName);
+        const { data: rawData, cacheStatus } = await fetchPackageData(
+          encodedPackageName
+        );
+        const sourceUrl = getPackageSourceUrl(args.packageName);
+        const resultData = transformDataForVersions(
+          rawData,
+          sourceUrl,
+          cacheStatus
+        );
+        return {
+          content: [{ type: 'text', text: JSON.stringify(resultData) }]
+        };
+      } catch (error) {
+        console.error(
+          `Error in get_npm_package_versions: ${(error as Error).message}`
+        );
+        throw error;
+      }
+    }
+  );
+
+  server.tool(
+    'get_npm_package_downloads',
+    'Provides download statistics for specified or all default periods. Accepts a single packageName, or a list of packageNames whose results are keyed by package.',
+    PackageDownloadsArgsSchema.shape,
+    async (args: PackageDownloadsArgs): Promise<CallToolResult> => {
+      try {
+        if (args.packageNames && args.packageNames.length > 0) {
+          const packageNames = Array.from(
+            new Set(
+              args.packageName
+                ? [args.packageName, ...args.packageNames]
+                : args.packageNames
+            )
+          );
+          const resultData = await fetchBulkPackageDownloads(
+            packageNames,
+            args.period
+          );
+          return {
+            content: [{ type: 'text', text: JSON.stringify(resultData) }]
+          };
+        }
+        if (!args.packageName) {
+          throw new Error(
+            'Either packageName or packageNames must be provided.'
+          );
+        }
+        const encodedPackageName = encodePackageName(args.packageName);
+        const resultData = await fetchPackageDownloads(
+          encodedPackageName,
+          args.period
+        );
+        return {
+          content: [{ type: 'text', text: JSON.stringify(resultData) }]
+        };
+      } catch (error) {
+        console.error(
+          `Error in get_npm_package_downloads: ${(error as Error).message}`
+        );
+        throw error;
+      }
+    }
+  );
+
+  server.tool(
+    'get_npm_package_details',
+    'Offers a more comprehensive set of information, including maintainers, repository URL, homepage, and keywords.',
+    PackageNameArgsSchema.shape,
+    async (args: PackageNameArgs): Promise<CallToolResult> => {
+      try {
+        const encodedPackageName = encodePackageName(args.packageName);
+        const { data: rawData, cacheStatus } = await fetchPackageData(
+          encodedPackageName
+        );
+        const sourceUrl = getPackageSourceUrl(args.packageName);
+        const resultData = transformDataForDetails(
+          rawData,
+          sourceUrl,
+          cacheStatus
+        );
+        return {
+          content: [{ type: 'text', text: JSON.stringify(resultData) }]
+        };
+      } catch (error) {
+        console.error(
+          `Error in get_npm_package_details: ${(error as Error).message}`
+        );
+        throw error;
+      }
+    }
+  );
+
+  server.tool(
+    'npm_audit',
+    'Performs an audit of packages in the specified project directory and returns a structured summary of vulnerabilities and metadata',
+    NpmAuditArgsSchema.shape,
+    async (args: NpmAuditArgs): Promise<CallToolResult> => {
+      try {
+        const projectPath = args.projectPath;
+        const lockfilePath = path.join(projectPath, 'package-lock.json');
+        if (!fs.existsSync(lockfilePath)) {
+          throw new Error(
+            `npm audit requires a package-lock.json file in the target directory '${projectPath}'. Please run 'npm install' or 'npm i --package-lock-only' in that directory first.`
+          );
+        }
+        const { execSync } = await import('child_process');
+        let auditRaw: string;
+        console.error(
+          `[${new Date().toISOString()}] Running npm audit in directory: ${projectPath}`
+        );
+        try {
+          auditRaw = execSync('npm audit --json', {
+            encoding: 'utf-8',
+            cwd: projectPath
+          });
+        } catch (err: any) {
+          if (err.stdout) {
+            auditRaw = err.stdout;
+          } else {
+            throw new Error(
+              `Failed to run 'npm audit --json' in ${projectPath}: ${
+                err.message || err
+              }`
+            );
+          }
+        }
+        let auditJson: any;
+        try {
+          auditJson = JSON.parse(auditRaw);
+        } catch (err) {
+          throw new Error(
+            `Failed to parse npm audit JSON output from ${projectPath}.`
+          );
+        }
+        const rawSeveritySummary = (auditJson.metadata?.vulnerabilities ||
+          {}) as NpmAuditSeveritySummary;
+        const summary: NpmAuditOverallSummary = {
+          totalVulnerabilities: Object.values(rawSeveritySummary).reduce(
+            (acc: number, count?: number) => acc + (count || 0),
+            0
+          ),
+          bySeverity: rawSeveritySummary
+        };
+        const vulnerabilities: NpmAuditVulnerabilityEntry[] = [];
+        if (auditJson.vulnerabilities) {
+          for (const [
+            pkgName,
+            vulnDetails
+          ] of Object.entries<RawAuditVulnerabilityValue>(
+            auditJson.vulnerabilities as Record<
+              string,
+              RawAuditVulnerabilityValue
+            >
+          )) {
+            vulnerabilities.push({
+              package: pkgName,
+              version: vulnDetails.installed || vulnDetails.version || '',
+              severity: vulnDetails.severity || 'unknown',
+              advisoryUrl: vulnDetails.url || undefined
+            });
+          }
+        }
+        const resultData: McpNpmAuditResult = {
+          auditRunDate:
+            auditJson.metadata?.auditReportCreatedAt ||
+            new Date().toISOString(),
+          npmVersion: auditJson.metadata?.npmVersion || '',
+          nodeVersion: auditJson.metadata?.nodeVersion || '',
+          summary,
+          vulnerabilities,
+          rawAuditReport: auditJson
+        };
+        return {
+          content: [{ type: 'text', text: JSON.stringify(resultData) }]
+        };
+      } catch (error) {
+        console.error(`Error in npm_audit: ${(error as Error).message}`);
+        throw error;
+      }
+    }
+  );
+
+  server.tool(
+    'simulate_npm_audit_fix',
+    'Simulates `npm audit fix --dry-run` in the specified project directory and returns a structured summary of potential changes.',
+    SimulateNpmAuditFixArgsSchema.shape,
+    async (args: SimulateNpmAuditFixArgs): Promise<CallToolResult> => {
+      try {
+        const projectPath = args.projectPath;
+        const lockfilePath = path.join(projectPath, 'package-lock.json');
+        if (!fs.existsSync(lockfilePath)) {
+          throw new Error(
+            `npm audit fix requires a package-lock.json file in the target directory '${projectPath}'. Please run 'npm install' or 'npm i --package-lock-only' in that directory first.`
+          );
+        }
+        const { execSync } = await import('child_process');
+        let simulationRaw: string;
+        console.error(
+          `[${new Date().toISOString()}] Running npm audit fix --dry-run --json in directory: ${projectPath}`
+        );
+        try {
+          simulationRaw = execSync('npm audit fix --dry-run --json', {
+            encoding: 'utf-8',
+            cwd: projectPath,
+            stdio: ['pipe', 'pipe', 'pipe']
+          });
+        } catch (err: any) {
+          if (err.stdout) {
+            simulationRaw = err.stdout;
+            console.error(
+              `[${new Date().toISOString()}] npm audit fix --dry-run exited non-zero but produced output in ${projectPath}. Stderr: ${
+                err.stderr || '(no stderr)'
+              }`
+            );
+          } else {
+            throw new Error(
+              `Failed to run 'npm audit fix --dry-run --json' in ${projectPath}: ${
+                err.message || err
+              }. Stderr: ${err.stderr || '(no stderr)'}`
+            );
+          }
+        }
+        let simulationJson: any;
+        try {
+          const jsonStartIndex = simulationRaw.indexOf('{');
+          if (jsonStartIndex === -1) {
+            throw new Error(
+              `Could not find start of JSON object in npm audit fix --dry-run output from ${projectPath}. Raw output: ${simulationRaw}`
+            );
+          }
+          const jsonString = simulationRaw.substring(jsonStartIndex);
+          simulationJson = JSON.parse(jsonString);
+        } catch (err) {
+          throw new Error(
+            `Failed to parse npm audit fix --dry-run JSON output from ${projectPath}. Error: ${
+              (err as Error).message
+            }. Raw output fragment: ${simulationRaw.substring(0, 500)}...`
+          );
+        }
+        let actions: NpmAuditFixAction[] = [];
+        if (simulationJson.actions && Array.isArray(simulationJson.actions)) {
+          actions = simulationJson.actions.map((action: any) => {
+            const actionType =
+              typeof action.action === 'string'
+                ? action.action.toLowerCase()
+                : 'unknown';
+            const name =
+              typeof action.module === 'string'
+                ? action.module
+                : typeof action.name === 'string'
+                ? action.name
+                : 'unknown';
+            const version =
+              typeof action.target === 'string' ? action.target : undefined;
+            let oldVersion: string | undefined;
+            if (
+              action.resolves &&
+              Array.isArray(action.resolves) &&
+              action.resolves.length > 0 &&
+              action.resolves[0]
+            ) {
+              oldVersion =
+                typeof action.resolves[0].from === 'string'
+                  ? action.resolves[0].from
+                  : undefined;
+            }
+            const isMajor =
+              typeof action.isMajor === 'boolean' ? action.isMajor : undefined;
+            let path: string | undefined;
+            if (
+              action.resolves &&
+              Array.isArray(action.resolves) &&
+              action.resolves.length > 0 &&
+              action.resolves[0]
+            ) {
+              path =
+                typeof action.resolves[0].path === 'string'
+                  ? action.resolves[0].path
+                  : undefined;
+            }
+            return {
+              action: actionType as NpmAuditFixAction['action'],
+              name,
+              version,
+              oldVersion,
+              isMajor,
+              path
+            };
+          });
+        }
+        const summary: NpmAuditFixSummary = {
+          added: simulationJson.added || 0,
+          removed: simulationJson.removed || 0,
+          changed: simulationJson.changed || 0,
+          audited: simulationJson.audited || 0,
+          funding: simulationJson.funding || 0
+        };
+        const resultData: McpSimulateAuditFixResult = {
+          simulationRunDate: new Date().toISOString(),
+          npmVersion: simulationJson.metadata?.npmVersion || '',
+          nodeVersion: simulationJson.metadata?.nodeVersion || '',
+          summary,
+          actions,
+          rawSimulationOutput: simulationJson
+        };
+        return {
+          content: [{ type: 'text', text: JSON.stringify(resultData) }]
+        };
+      } catch (error) {
+        console.error(
+          `Error in simulate_npm_audit_fix: ${(error as Error).message}`
+        );
+        throw error;
+      }
+    }
+  );
+
+  server.tool(
+    'search_npm_packages',
+    'Searches the registry by text, keywords, author, maintainer and scope, returning package summaries with quality, popularity and maintenance scores.',
+    SearchPackagesArgsSchema.shape,
+    async (args: SearchPackagesArgs): Promise<CallToolResult> => {
+      try {
+        const query = buildSearchQuery(args);
+        if (!query) {
+          throw new Error(
+            'At least one of text, keywords, author, maintainer or scope must be provided.'
+          );
+        }
+        const resultData = await searchPackages(
+          query,
+          args.size ?? 20,
+          args.from ?? 0,
+          args.scope
+        );
+        return {
+          content: [{ type: 'text', text: JSON.stringify(resultData) }]
+        };
+      } catch (error) {
+        console.error(
+          `Error in search_npm_packages: ${(error as Error).message}`
+        );
+        throw error;
+      }
+    }
+  );
+
+  server.tool(
+    'get_npm_package_version',
+    "Resolves an exact version, dist-tag or semver range (e.g. ^4.17.0) and returns that version's manifest: dependencies, peer dependencies, engines, bin, entry points, deprecation and dist information.",
+    PackageVersionArgsSchema.shape,
+    async (args: PackageVersionArgs): Promise<CallToolResult> => {
+      try {
+        const encodedPackageName = encodePackageName(args.packageName);
+        const { data: rawData, cacheStatus } = await fetchPackageData(
+          encodedPackageName
+        );
+        const sourceUrl = getPackageSourceUrl(args.packageName);
+        const resultData = transformDataForVersionManifest(
+          rawData,
+          args.version || 'latest',
+          sourceUrl,
+          cacheStatus
+        );
+        return {
+          content: [{ type: 'text', text: JSON.stringify(resultData) }]
+        };
+      } catch (error) {
+        console.error(
+          `Error in get_npm_package_version: ${(error as Error).message}`
+        );
+        throw error;
+      }
+    }
+  );
+
+  server.tool(
+    'get_npm_dependency_tree',
+    'Resolves the transitive production dependency graph of a package version from registry metadata, without installing it. Marks duplicates, cycles and depth-limited branches.',
+    DependencyTreeArgsSchema.shape,
+    async (args: DependencyTreeArgs): Promise<CallToolResult> => {
+      try {
+        const resultData = await resolveDependencyTree(
+          args.packageName,
+          args.version || 'latest',
+          args.maxDepth ?? 10,
+          DEFAULT_REGISTRY_CONCURRENCY
+        );
+        if (args.format === 'flat') {
+          delete resultData.tree;
+        } else {
+          delete resultData.packages;
+        }
+        return {
+          content: [{ type: 'text', text: JSON.stringify(resultData) }]
+        };
+      } catch (error) {
+        console.error(
+          `Error in get_npm_dependency_tree: ${(error as Error).message}`
+        );
+        throw error;
+      }
+    }
+  );
+
+  server.tool(
+    'analyze_lockfile',
+    'Parses the package-lock.json (v1-v3), yarn.lock (classic or berry) or pnpm-lock.yaml in the specified project directory without running npm, and reports direct vs transitive dependencies, packages installed at several versions, git/tarball-resolved dependencies and entries missing integrity hashes.',
+    AnalyzeLockfileArgsSchema.shape,
+    async (args: AnalyzeLockfileArgs): Promise<CallToolResult> => {
+      try {
+        const lockfile = readProjectLockfile(args.projectPath);
+        const resultData = analyzeLockfile(lockfile);
+        return {
+          content: [{ type: 'text', text: JSON.stringify(resultData) }]
+        };
+      } catch (error) {
+        console.error(`Error in analyze_lockfile: ${(error as Error).message}`);
+        throw error;
+      }
+    }
+  );
+
+  server.tool(
+    'check_outdated_dependencies',
+    'Reports installed, wanted and latest versions for every dependency in the specified project directory, with the size of each upgrade (patch/minor/major) and the age of the latest release. Uses registry metadata, so npm does not need to be installed.',
+    CheckOutdatedArgsSchema.shape,
+    async (args: CheckOutdatedArgs): Promise<CallToolResult> => {
+      try {
+        const resultData = await checkOutdatedDependencies(
+          args.projectPath,
+          args.includeDevDependencies ?? true
+        );
+        return {
+          content: [{ type: 'text', text: JSON.stringify(resultData) }]
+        };
+      } catch (error) {
+        console.error(
+          `Error in check_outdated_dependencies: ${(error as Error).message}`
+        );
+        throw error;
+      }
+    }
+  );
+
+  server.tool(
+    'audit_packages',
+    "Checks explicit name@version pairs, or every package in a lockfile, against the registry's bulk security advisory endpoint without running npm. Returns advisories with GHSA/CVE ids, CVSS score, vulnerable range and patched versions.",
+    AuditPackagesArgsSchema.shape,
+    async (args: AuditPackagesArgs): Promise<CallToolResult> => {
+      try {
+        let packages: Array<{ name: string; version: string }> = [];
+        let lockfile: ParsedLockfile | undefined;
+        if (args.packages && args.packages.length > 0) {
+          packages = parsePackageVersionList(args.packages);
+        }
+        if (args.lockfilePath) {
+          lockfile = fs.statSync(args.lockfilePath).isDirectory()
+            ? readProjectLockfile(args.lockfilePath)
+            : readLockfile(args.lockfilePath);
+          packages.push(...getLockfileRegistryPackages(lockfile));
+        }
+        if (packages.length === 0) {
+          throw new Error(
+            'Provide either a list of name@version pairs in packages or a lockfilePath.'
+          );
+        }
+        const { vulnerabilities, sources } = await fetchBulkAdvisories(
+          packages
+        );
+        await Promise.all([
+          args.includePatchedVersions ?? true
+            ? addPatchedVersions(vulnerabilities)
+            : undefined,
+          addCveIds(vulnerabilities)
+        ]);
+        const resultData: McpPackageAuditResult = {
+          auditRunDate: new Date().toISOString(),
+          packagesAudited: new Set(
+            packages.map(pkg => `${pkg.name}@${pkg.version}`)
+          ).size,
+          lockfile: lockfile?.lockfilePath,
+          summary: summarizeAdvisories(vulnerabilities),
+          vulnerabilities,
+          source: sources.join(', ')
+        };
+        return {
+          content: [{ type: 'text', text: JSON.stringify(resultData) }]
+        };
+      } catch (error) {
+        console.error(`Error in audit_packages: ${(error as Error).message}`);
+        throw error;
+      }
+    }
+  );
+
+  server.tool(
+    'get_npm_download_history',
+    'Provides a download time series for an arbitrary date range, grouped by day, week or month, with moving averages, growth rates, trend and peak periods.',
+    DownloadHistoryArgsSchema.shape,
+    async (args: DownloadHistoryArgs): Promise<CallToolResult> => {
+      try {
+        const end = args.endDate || formatDay(new Date(Date.now() - DAY_MS));
+        const start =
+          args.startDate ||
+          formatDay(new Date(parseDay(end).getTime() - 364 * DAY_MS));
+        const resultData = await fetchDownloadHistory(
+          args.packageName,
+          start,
+          end,
+          args.groupBy || 'week',
+          args.movingAverageWindow ?? 4
+        );
+        return {
+          content: [{ type: 'text', text: JSON.stringify(resultData) }]
+        };
+      } catch (error) {
+        console.error(
+          `Error in get_npm_download_history: ${(error as Error).message}`
+        );
+        throw error;
+      }
+    }
+  );
+
+  server.tool(
+    'compare_npm_packages',
+    'Compares 2-10 packages side by side: latest version, license, last publish date, release frequency, maintainers, dependency count, unpacked size, weekly downloads and open advisories. Returns JSON followed by a Markdown table.',
+    ComparePackagesArgsSchema.shape,
+    async (args: ComparePackagesArgs): Promise<CallToolResult> => {
+      try {
+        const resultData = await comparePackages(
+          Array.from(new Set(args.packageNames))
+        );
+        return {
+          content: [
+            { type: 'text', text: JSON.stringify(resultData) },
+            {
+              type: 'text',
+              text: renderComparisonMarkdown(resultData.packages)
+            }
+          ]
+        };
+      } catch (error) {
+        console.error(
+          `Error in compare_npm_packages: ${(error as Error).message}`
+        );
+        throw error;
+      }
+    }
+  );
+
+  server.tool(
+    'get_npm_package_readme',
+    "Returns a package's README for the latest or a given version, optionally just one section (e.g. 'Installation' or 'API') and truncated to maxLength characters. With sinceVersion, also returns changelog entries between that version and the requested one, from the package tarball, its repository's changelog or GitHub releases.",
+    PackageReadmeArgsSchema.shape,
+    async (args: PackageReadmeArgs): Promise<CallToolResult> => {
+      try {
+        const resultData = await getPackageReadme(args.packageName, args);
+        return {
+          content: [{ type: 'text', text: JSON.stringify(resultData) }]
+        };
+      } catch (error) {
+        console.error(
+          `Error in get_npm_package_readme: ${(error as Error).message}`
+        );
+        throw error;
+      }
+    }
+  );
+
+  server.tool(
+    'inspect_npm_package_tarball',
+    'Downloads the published tarball of a package version, verifies it against dist.integrity and unpacks it in memory. Returns the file tree (or a flat list) with sizes and a breakdown by extension, and optionally the contents of up to 20 files (text as UTF-8, binary as base64, limited to maxBytesPerFile each). Entries that would escape the package directory are rejected.',
+    InspectTarballArgsSchema.shape,
+    async (args: InspectTarballArgs): Promise<CallToolResult> => {
+      try {
+        const resultData = await inspectPackageTarball(args.packageName, args);
+        return {
+          content: [{ type: 'text', text: JSON.stringify(resultData) }]
+        };
+      } catch (error) {
+        console.error(
+          `Error in inspect_npm_package_tarball: ${(error as Error).message}`
+        );
+        throw error;
+      }
+    }
+  );
+
+  server.tool(
+    'get_npm_package_compatibility',
+    'Reports how a package version can be consumed: CommonJS, native ESM or dual, from its "type", "exports", "main" and "module" fields; whether TypeScript types are bundled or available from a @types/* package; the Node.js engine requirement; and browser and edge runtime conditions.',
+    PackageCompatibilityArgsSchema.shape,
+    async (args: PackageCompatibilityArgs): Promise<CallToolResult> => {
+      try {
+        const resultData = await analyzePackageCompatibility(
+          args.packageName,
+          args.version
+        );
+        return {
+          content: [{ type: 'text', text: JSON.stringify(resultData) }]
+        };
+      } catch (error) {
+        console.error(
+          `Error in get_npm_package_compatibility: ${(error as Error).message}`
+        );
+        throw error;
+      }
+    }
+  );
+
+  server.tool(
+    'check_project_licenses',
+    "Scans every package in a project's lockfile (or installed node_modules tree) for its SPDX license expression, including legacy 'licenses' arrays, and checks it against an allow/deny policy. Reports violations, UNLICENSED or unknown licenses, and the dependency path that brings each package in.",
+    CheckLicensesArgsSchema.shape,
+    async (args: CheckLicensesArgs): Promise<CallToolResult> => {
+      try {
+        const resultData = await checkProjectLicenses(args.projectPath, args);
+        return {
+          content: [{ type: 'text', text: JSON.stringify(resultData) }]
+        };
+      } catch (error) {
+        console.error(
+          `Error in check_project_licenses: ${(error as Error).message}`
+        );
+        throw error;
+      }
+    }
+  );
+
+  server.tool(
+    'get_npm_package_health',
+    'Calculates a 0-100 maintenance health score from time since the last release, release cadence, maintainer count, deprecations, dependency count, weekly downloads and download trend. Returns each factor with its score, weight and contribution, plus warnings such as "No release in 3 years" or "Single maintainer". Factor weights can be overridden.',
+    PackageHealthArgsSchema.shape,
+    async (args: PackageHealthArgs): Promise<CallToolResult> => {
+      try {
+        const resultData = await getPackageHealth(
+          args.packageName,
+          args.weights
+        );
+        return {
+          content: [{ type: 'text', text: JSON.stringify(resultData) }]
+        };
+      } catch (error) {
+        console.error(
+          `Error in get_npm_package_health: ${(error as Error).message}`
+        );
+        throw error;
+      }
+    }
+  );
+
+  server.tool(
+    'check_npm_supply_chain_risk',
+    'Reports supply-chain red flags for a package version, each with its evidence: install scripts, a new publisher or changed maintainers, missing or dropped provenance, registry signatures that are missing or fail verification against the registry keys, a publish shortly after the previous version, a large jump in unpacked size and new dependencies in a patch release. Compares with the previous version unless compareWith is given.',
+    SupplyChainRiskArgsSchema.shape,
+    async (args: SupplyChainRiskArgs): Promise<CallToolResult> => {
+      try {
+        const resultData = await checkSupplyChainRisk(
+          args.packageName,
+          args.version,
+          args.compareWith
+        );
+        return {
+          content: [{ type: 'text', text: JSON.stringify(resultData) }]
+        };
+      } catch (error) {
+        console.error(
+          `Error in check_npm_supply_chain_risk: ${(error as Error).message}`
+        );
+        throw error;
+      }
+    }
+  );
+
+  server.tool(
+    'diff_npm_package_versions',
+    'Compares two versions of a package (versions, dist-tags or ranges): changes to dependencies, engines, scripts, bin, license, entry fields and exports in the manifest, plus files added, removed or changed in the tarball. Optionally returns unified diffs for up to 10 chosen files, limited to maxDiffBytes in total.',
+    DiffVersionsArgsSchema.shape,
+    async (args: DiffVersionsArgs): Promise<CallToolResult> => {
+      try {
+        const resultData = await diffPackageVersions(
+          args.packageName,
+          args.fromVersion,
+          args.toVersion,
+          args
+        );
+        return {
+          content: [{ type: 'text', text: JSON.stringify(resultData) }]
+        };
+      } catch (error) {
+        console.error(
+          `Error in diff_npm_package_versions: ${(error as Error).message}`
+        );
+        throw error;
+      }
+    }
+  );
+
+  server.tool(
+    'plan_dependency_upgrades',
+    "Proposes version bumps for a project's direct dependencies without writing anything. Bumps are grouped into safe (patch/minor within the installed major, no peer conflicts or engines changes) and risky (major, or with engine, peer dependency or Node version changes). Each lists the advisories it fixes and the deprecations it removes. Returns the plan plus the edited package.json and a unified diff of it.",
+    PlanUpgradesArgsSchema.shape,
+    async (args: PlanUpgradesArgs): Promise<CallToolResult> => {
+      try {
+        const resultData = await planDependencyUpgrades(args.projectPath, args);
+        return {
+          content: [{ type: 'text', text: JSON.stringify(resultData) }]
+        };
+      } catch (error) {
+        console.error(
+          `Error in plan_dependency_upgrades: ${(error as Error).message}`
+        );
+        throw error;
+      }
+    }
+  );
+
+  server.tool(
+    'check_peer_dependencies',
+    'Checks the peer dependencies of every installed package in a project (from the lockfile, or node_modules without one) against the versions that would provide them, optionally with packages to be added given as name@range. Reports unmet, conflicting and optional-missing peers with the dependency chain that brings each dependent in, and the highest version of each peer that satisfies every constraint.',
+    CheckPeerDependenciesArgsSchema.shape,
+    async (args: CheckPeerDependenciesArgs): Promise<CallToolResult> => {
+      try {
+        const resultData = await checkPeerDependencies(args.projectPath, args);
+        return {
+          content: [{ type: 'text', text: JSON.stringify(resultData) }]
+        };
+      } catch (error) {
+        console.error(
+          `Error in check_peer_dependencies: ${(error as Error).message}`
+        );
+        throw error;
+      }
+    }
+  );
+
+  server.tool(
+    'find_deprecated_dependencies',
+    "Walks a project's dependency tree (lockfile, or node_modules without one) and looks up each resolved version in the registry, listing the deprecated ones with the deprecation message, the dependency path that brings them in, the next non-deprecated version and a suggested replacement package when the message names one.",
+    FindDeprecatedArgsSchema.shape,
+    async (args: FindDeprecatedArgs): Promise<CallToolResult> => {
+      try {
+        const resultData = await findDeprecatedDependencies(
+          args.projectPath,
+          args
+        );
+        return {
+          content: [{ type: 'text', text: JSON.stringify(resultData) }]
+        };
+      } catch (error) {
+        console.error(
+          `Error in find_deprecated_dependencies: ${(error as Error).message}`
+        );
+        throw error;
+      }
+    }
+  );
+
+  server.tool(
+    'estimate_npm_bundle_size',
+    'Estimates how much a package adds to a browser bundle, locally and without a bundling service: downloads the tarballs of the version and its production dependency closure, follows imports from the entry point named by exports/module/main, and reports the raw and gzip size of the entry file and of all reachable modules, the total install size and the biggest contributing packages, with notes on what the estimate leaves out.',
+    EstimateBundleSizeArgsSchema.shape,
+    async (args: EstimateBundleSizeArgs): Promise<CallToolResult> => {
+      try {
+        const resultData = await estimateBundleSize(
+          args.packageName,
+          args.version || 'latest',
+          args
+        );
+        return {
+          content: [{ type: 'text', text: JSON.stringify(resultData) }]
+        };
+      } catch (error) {
+        console.error(
+          `Error in estimate_npm_bundle_size: ${(error as Error).message}`
+        );
+        throw error;
+      }
+    }
+  );
+
+  server.tool(
+    'list_npm_scope_packages',
+    "Lists the packages published under a scope (e.g. @ourco), paged, with each package's latest version and publish date. Uses the registry's organization or user package endpoint, falling back to the search `scope:` qualifier.",
+    ListScopePackagesArgsSchema.shape,
+    async (args: ListScopePackagesArgs): Promise<CallToolResult> => {
+      try {
+        const resultData = await listOwnerPackages(
+          'scope',
+          args.scope,
+          args.size ?? 20,
+          args.from ?? 0
+        );
+        return {
+          content: [{ type: 'text', text: JSON.stringify(resultData) }]
+        };
+      } catch (error) {
+        console.error(
+          `Error in list_npm_scope_packages: ${(error as Error).message}`
+        );
+        throw error;
+      }
+    }
+  );
+
+  server.tool(
+    'list_npm_maintainer_packages',
+    "Lists the packages a registry user maintains, paged, with each package's latest version and publish date. Uses the registry's user package endpoint, falling back to the search `maintainer:` qualifier.",
+    ListMaintainerPackagesArgsSchema.shape,
+    async (args: ListMaintainerPackagesArgs): Promise<CallToolResult> => {
+      try {
+        const resultData = await listOwnerPackages(
+          'maintainer',
+          args.username,
+          args.size ?? 20,
+          args.from ?? 0
+        );
+        return {
+          content: [{ type: 'text', text: JSON.stringify(resultData) }]
+        };
+      } catch (error) {
+        console.error(
+          `Error in list_npm_maintainer_packages: ${(error as Error).message}`
+        );
+        throw error;
+      }
+    }
+  );
+};
+
+// --- Prompt Implementations ---
+
+const registerPrompts = (server: Server): void => {
+  // 1. Get Summary Prompt
+  server.prompt(
+    'get_summary_prompt',
+    'Generates a request to get a quick summary of a specified npm package.',
+    PackageNameArgsSchema.shape,
+    async (args: PackageNameArgs): Promise<GetPromptResult> => {
+      return {
+        description: `Generates a request to get a quick summary of the '${args.packageName}' npm package.`,
+        messages: [
+          {
+            role: 'user',
+            content: {
+              type: 'text',
+              text: `Get a quick summary of the '${args.packageName}' npm package.`
+            }
+          }
+        ]
+      };
+    }
+  );
+
+  // 2. Get Details Prompt
+  server.prompt(
+    'get_details_prompt',
+    'Generates a request for full details of a specified npm package, including maintainers and repository URL.',
+    PackageNameArgsSchema.shape,
+    async (args: PackageNameArgs): Promise<GetPromptResult> => {
+      return {
+        description: `Generates a request for full details of the '${args.packageName}' package.`,
+        messages: [
+          {
+            role: 'user',
+            content: {
+              type: 'text',
+              text: `Show me the full details for '${args.packageName}', including its repository URL and maintainers.`
+            }
+          }
+        ]
+      };
+    }
+  );
+
+  // 3. Find Homepage Prompt
+  server.prompt(
+    'find_homepage_prompt',
+    'Generates a request to find the official homepage for a specified npm package.',
+    PackageNameArgsSchema.shape,
+    async (args: PackageNameArgs): Promise<GetPromptResult> => {
+      return {
+        description: `Generates a request to find the official homepage for the '${args.packageName}' package.`,
+        messages: [
+          {
+            role: 'user',
+            content: {
+              type: 'text',
+              text: `What is the official homepage for the '${args.packageName}' package?`
+            }
+          }
+        ]
+      };
+    }
+  );
+
+  // 4. List Versions Prompt
+  server.prompt(
+    'list_versions_prompt',
+    'Generates a request to list all available versions and their publish dates for a specified npm package.',
+    PackageNameArgsSchema.shape,
+    async (args: PackageNameArgs): Promise<GetPromptResult> => {
+      return {
+        description: `Generates a request to list versions for the '${args.packageName}' package.`,
+        messages: [
+          {
+            role: 'user',
+            content: {
+              type: 'text',
+              text: `List all available versions of '${args.packageName}' and their publish dates.`
+            }
+          }
+        ]
+      };
+    }
+  );
+
+  // 5. Get Version Date Prompt
+  server.prompt(
+    'get_version_date_prompt',
+    'Generates a request to find the publish date for a specific version of a specified npm package.',
+    GetVersionDateArgsSchema.shape,
+    async (args: GetVersionDateArgs): Promise<GetPromptResult> => {
+      return {
+        description: `Generates a request for the publish date of version ${args.version} of '${args.packageName}'.`,
+        messages: [
+          {
+            role: 'user',
+            content: {
+              type: 'text',
+              text: `What was the publish date of version ${args.version} for '${args.packageName}'?`
+            }
+          }
+        ]
+      };
+    }
+  );
+
+  // 6. Get Downloads Prompt
+  server.prompt(
+    'get_downloads_prompt',
+    'Generates a request for the download count of a specified npm package over a specific time period.',
+    GetDownloadsArgsSchema.shape,
+    async (args: GetDownloadsArgs): Promise<GetPromptResult> => {
+      return {
+        description: `Generates a request for the download count of '${args.packageName}' in the ${args.timePeriod}.`,
+        messages: [
+          {
+            role: 'user',
+            content: {
+              type: 'text',
+              text: `How many times was '${args.packageName}' downloaded in the ${args.timePeriod}?`
+            }
+          }
+        ]
+      };
+    }
+  );
+
+  // 7. Get All Downloads Prompt
+  server.prompt(
+    'get_all_downloads_prompt',
+    'Generates a request for the download counts of a specified npm package for the last day, week, and month.',
+    PackageNameArgsSchema.shape,
+    async (args: PackageNameArgs): Promise<GetPromptResult> => {
+      return {
+        description: `Generates a request for all default download counts for '${args.packageName}'.`,
+        messages: [
+          {
+            role: 'user',
+            content: {
+              type: 'text',
+              text: `Get the download counts for '${args.packageName}' for the last day, week, and month.`
+            }
+          }
+        ]
+      };
+    }
+  );
+
+  // 8. Audit Project Prompt
+  server.prompt(
+    'audit_project_prompt',
+    'Generates a request to audit the dependencies in a specified project directory for security vulnerabilities.',
+    NpmAuditArgsSchema.shape,
+    async (args: NpmAuditArgs): Promise<GetPromptResult> => {
+      return {
+        description: `Generates a request to audit dependencies in '${args.projectPath}'.`,
+        messages: [
+          {
+            role: 'user',
+            content: {
+              type: 'text',
+              text: `Audit the dependencies in the project at '${args.projectPath}' for security vulnerabilities.`
+            }
+          }
+        ]
+      };
+    }
+  );
+
+  // 9. Simulate Audit Fix Prompt
+  server.prompt(
+    'simulate_audit_fix_prompt',
+    'Generates a request to simulate running `npm audit fix` on a specified project directory.',
+    SimulateNpmAuditFixArgsSchema.shape,
+    async (args: SimulateNpmAuditFixArgs): Promise<GetPromptResult> => {
+      return {
+        description: `Generates a request to simulate 'npm audit fix' in '${args.projectPath}'.`,
+        messages: [
+          {
+            role: 'user',
+            content: {
+              type: 'text',
+              text: `Simulate running 'npm audit fix' on the project at '${args.projectPath}' and show me what would change.`
+            }
+          }
+        ]
+      };
+    }
+  );
+
+  // 10. Search Packages Prompt
+  server.prompt(
+    'search_packages_prompt',
+    'Generates a request to find popular npm packages for a given purpose.',
+    SearchPromptArgsSchema.shape,
+    async (args: SearchPromptArgs): Promise<GetPromptResult> => {
+      return {
+        description: `Generates a request to search npm for '${args.query}'.`,
+        messages: [
+          {
+            role: 'user',
+            content: {
+              type: 'text',
+              text: `What are the most popular and well-maintained npm packages for ${args.query}?`
+            }
+          }
+        ]
+      };
+    }
+  );
+
+  // 11. Get Version Manifest Prompt
+  server.prompt(
+    'get_version_manifest_prompt',
+    'Generates a request for the manifest of the version of a specified npm package that a version, tag or range resolves to.',
+    GetVersionDateArgsSchema.shape,
+    async (args: GetVersionDateArgs): Promise<GetPromptResult> => {
+      return {
+        description: `Generates a request for the manifest of '${args.packageName}@${args.version}'.`,
+        messages: [
+          {
+            role: 'user',
+            content: {
+              type: 'text',
+              text: `Which version of '${args.packageName}' does '${args.version}' resolve to, and what are its dependencies, peer dependencies and engine requirements?`
+            }
+          }
+        ]
+      };
+    }
+  );
+
+  // 12. Dependency Tree Prompt
+  server.prompt(
+    'dependency_tree_prompt',
+    'Generates a request to show everything a specified npm package pulls in.',
+    PackageNameArgsSchema.shape,
+    async (args: PackageNameArgs): Promise<GetPromptResult> => {
+      return {
+        description: `Generates a request for the dependency tree of '${args.packageName}'.`,
+        messages: [
+          {
+            role: 'user',
+            content: {
+              type: 'text',
+              text: `What would installing '${args.packageName}' pull in? Show me its dependency tree and how many packages it adds.`
+            }
+          }
+        ]
+      };
+    }
+  );
+
+  // 13. Analyze Lockfile Prompt
+  server.prompt(
+    'analyze_lockfile_prompt',
+    'Generates a request to analyze the lockfile of a specified project directory.',
+    AnalyzeLockfileArgsSchema.shape,
+    async (args: AnalyzeLockfileArgs): Promise<GetPromptResult> => {
+      return {
+        description: `Generates a request to analyze the lockfile in '${args.projectPath}'.`,
+        messages: [
+          {
+            role: 'user',
+            content: {
+              type: 'text',
+              text: `Analyze the lockfile of the project at '${args.projectPath}': which packages are duplicated, which come from git or tarball URLs, and which are missing integrity hashes?`
+            }
+          }
+        ]
+      };
+    }
+  );
+
+  // 14. Outdated Dependencies Prompt
+  server.prompt(
+    'outdated_dependencies_prompt',
+    'Generates a request to list the outdated dependencies of a specified project directory.',
+    NpmAuditArgsSchema.shape,
+    async (args: NpmAuditArgs): Promise<GetPromptResult> => {
+      return {
+        description: `Generates a request to list outdated dependencies in '${args.projectPath}'.`,
+        messages: [
+          {
+            role: 'user',
+            content: {
+              type: 'text',
+              text: `Which dependencies of the project at '${args.projectPath}' are out of date, and which of the upgrades are major versions?`
+            }
+          }
+        ]
+      };
+    }
+  );
+
+  // 15. Audit Package Version Prompt
+  server.prompt(
+    'audit_package_version_prompt',
+    'Generates a request to check a specific version of a specified npm package for known vulnerabilities before installing it.',
+    GetVersionDateArgsSchema.shape,
+    async (args: GetVersionDateArgs): Promise<GetPromptResult> => {
+      return {
+        description: `Generates a request to check '${args.packageName}@${args.version}' for known vulnerabilities.`,
+        messages: [
+          {
+            role: 'user',
+            content: {
+              type: 'text',
+              text: `Does '${args.packageName}@${args.version}' have any known security advisories? If so, which version fixes them?`
+            }
+          }
+        ]
+      };
+    }
+  );
+
+  // 16. Download Trend Prompt
+  server.prompt(
+    'download_trend_prompt',
+    'Generates a request to find out whether a specified npm package is growing or declining in usage.',
+    PackageNameArgsSchema.shape,
+    async (args: PackageNameArgs): Promise<GetPromptResult> => {
+      return {
+        description: `Generates a request for the download trend of '${args.packageName}'.`,
+        messages: [
+          {
+            role: 'user',
+            content: {
+              type: 'text',
+              text: `Is '${args.packageName}' growing or declining? Show me its monthly downloads over the last two years.`
+            }
+          }
+        ]
+      };
+    }
+  );
+
+  // 17. Compare Packages Prompt
+  server.prompt(
+    'compare_packages_prompt',
+    'Generates a request to compare several npm packages side by side.',
+    ComparePromptArgsSchema.shape,
+    async (args: ComparePromptArgs): Promise<GetPromptResult> => {
+      return {
+        description: `Generates a request to compare ${args.packageNames}.`,
+        messages: [
+          {
+            role: 'user',
+            content: {
+              type: 'text',
+              text: `Compare these npm packages side by side and recommend one: ${args.packageNames}.`
+            }
+          }
+        ]
+      };
+    }
+  );
+
+  // 18. Changelog Prompt
+  server.prompt(
+    'changelog_prompt',
+    'Generates a request to summarize what changed in an npm package between two versions.',
+    ChangelogPromptArgsSchema.shape,
+    async (args: ChangelogPromptArgs): Promise<GetPromptResult> => {
+      return {
+        description: `Generates a request to summarize the changes in '${args.packageName}' from ${args.fromVersion} to ${args.toVersion}.`,
+        messages: [
+          {
+            role: 'user',
+            content: {
+              type: 'text',
+              text: `What changed in the npm package '${args.packageName}' from version ${args.fromVersion} to ${args.toVersion}? Highlight breaking changes.`
+            }
+          }
+        ]
+      };
+    }
+  );
+
+  // 19. Package Contents Prompt
+  server.prompt(
+    'package_contents_prompt',
+    'Generates a request to review what a specific version of an npm package actually ships.',
+    GetVersionDateArgsSchema.shape,
+    async (args: GetVersionDateArgs): Promise<GetPromptResult> => {
+      return {
+        description: `Generates a request to review the files shipped in '${args.packageName}'@${args.version}.`,
+        messages: [
+          {
+            role: 'user',
+            content: {
+              type: 'text',
+              text: `What files does version ${args.version} of the npm package '${args.packageName}' ship? Point out type declarations, ESM/CommonJS builds and anything that looks accidentally published.`
+            }
+          }
+        ]
+      };
+    }
+  );
+
+  // 20. Compatibility Prompt
+  server.prompt(
+    'compatibility_prompt',
+    'Generates a request to check whether an npm package works with ESM and ships TypeScript types.',
+    PackageNameArgsSchema.shape,
+    async (args: PackageNameArgs): Promise<GetPromptResult> => {
+      return {
+        description: `Generates a request to check ESM and TypeScript support of '${args.packageName}'.`,
+        messages: [
+          {
+            role: 'user',
+            content: {
+              type: 'text',
+              text: `Can I import the npm package '${args.packageName}' from an ES module, and does it ship TypeScript types?`
+            }
+          }
+        ]
+      };
+    }
+  );
+
+  // 21. License Compliance Prompt
+  server.prompt(
+    'license_compliance_prompt',
+    'Generates a request to check the licenses of all production dependencies of a project.',
+    NpmAuditArgsSchema.shape,
+    async (args: NpmAuditArgs): Promise<GetPromptResult> => {
+      return {
+        description: `Generates a request to check the dependency licenses of the project at '${args.projectPath}'.`,
+        messages: [
+          {
+            role: 'user',
+            content: {
+              type: 'text',
+              text: `Check the licenses of every production dependency of the project at '${args.projectPath}'. We cannot ship GPL-3.0 or AGPL code; list any violations and packages with unknown licenses, and how they get pulled in.`
+            }
+          }
+        ]
+      };
+    }
+  );
+
+  // 22. Package Health Prompt
+  server.prompt(
+    'package_health_prompt',
+    'Generates a request to assess whether an npm package is actively maintained.',
+    PackageNameArgsSchema.shape,
+    async (args: PackageNameArgs): Promise<GetPromptResult> => {
+      return {
+        description: `Generates a request to assess the maintenance health of '${args.packageName}'.`,
+        messages: [
+          {
+            role: 'user',
+            content: {
+              type: 'text',
+              text: `Is the npm package '${args.packageName}' healthy and actively maintained? Explain its health score and any warnings.`
+            }
+          }
+        ]
+      };
+    }
+  );
+
+  // 23. Supply Chain Risk Prompt
+  server.prompt(
+    'supply_chain_review_prompt',
+    'Generates a request to review a specific npm package version for supply-chain red flags before approving it.',
+    GetVersionDateArgsSchema.shape,
+    async (args: GetVersionDateArgs): Promise<GetPromptResult> => {
+      return {
+        description: `Generates a request to review '${args.packageName}'@${args.version} for supply-chain red flags.`,
+        messages: [
+          {
+            role: 'user',
+            content: {
+              type: 'text',
+              text: `We are about to approve version ${args.version} of the npm package '${args.packageName}'. Check it for supply-chain red flags and tell me whether anything needs a closer look.`
+            }
+          }
+        ]
+      };
+    }
+  );
+
+  // 24. Version Diff Prompt
+  server.prompt(
+    'version_diff_prompt',
+    'Generates a request to review what actually changed between two versions of an npm package.',
+    ChangelogPromptArgsSchema.shape,
+    async (args: ChangelogPromptArgs): Promise<GetPromptResult> => {
+      return {
+        description: `Generates a request to compare the contents of '${args.packageName}' between ${args.fromVersion} and ${args.toVersion}.`,
+        messages: [
+          {
+            role: 'user',
+            content: {
+              type: 'text',
+              text: `Compare the published contents of the npm package '${args.packageName}' between ${args.fromVersion} and ${args.toVersion}: dependency, script and export changes, and which files changed.`
+            }
+          }
+        ]
+      };
+    }
+  );
+
+  // 25. Upgrade Plan Prompt
+  server.prompt(
+    'upgrade_plan_prompt',
+    'Generates a request to plan dependency upgrades for a project, separating safe bumps from risky ones.',
+    NpmAuditArgsSchema.shape,
+    async (args: NpmAuditArgs): Promise<GetPromptResult> => {
+      return {
+        description: `Generates a request to plan dependency upgrades for the project at '${args.projectPath}'.`,
+        messages: [
+          {
+            role: 'user',
+            content: {
+              type: 'text',
+              text: `Plan dependency upgrades for the project at '${args.projectPath}'. Show the safe bumps I can apply now, the risky ones with what could break, and which advisories and deprecations each one resolves.`
+            }
+          }
+        ]
+      };
+    }
+  );
 
-server.tool(
-  'get_npm_package_summary',
-  'Provides essential package details: latest version, description, publish date, license, etc.',
-  PackageNameArgsSchema.shape,
-  async (args: PackageNameArgs): Promise<CallToolResult> => {
-    try {
-      const encodedPackageName = encodePackageName(args.packageName);
-      const rawData = await fetchPackageData(encodedPackageName);
-      const sourceUrl = `${NPM_REGISTRY_BASE_URL}/${encodedPackageName}`;
-      const resultData = transformDataForSummary(rawData, sourceUrl);
-      return { content: [{ type: 'text', text: JSON.stringify(resultData) }] };
-    } catch (error) {
-      console.error(
-        `Error in get_npm_package_summary: ${(error as Error).message}`
-      );
-      throw error; // Re-throw for SDK to handle
+  // 26. Peer Dependency Prompt
+  server.prompt(
+    'peer_dependency_prompt',
+    'Generates a request to check whether adding a package to a project would cause peer dependency conflicts.',
+    PeerDependencyPromptArgsSchema.shape,
+    async (args: PeerDependencyPromptArgs): Promise<GetPromptResult> => {
+      return {
+        description: `Generates a request to check peer dependency conflicts of adding '${args.packageSpec}' to the project at '${args.projectPath}'.`,
+        messages: [
+          {
+            role: 'user',
+            content: {
+              type: 'text',
+              text: `Would installing '${args.packageSpec}' in the project at '${args.projectPath}' cause peer dependency conflicts? If so, show which packages conflict and which versions would satisfy everything.`
+            }
+          }
+        ]
+      };
     }
-  }
-);
+  );
 
-server.tool(
-  'get_npm_package_versions',
-  'Lists available package versions along with their respective publish dates.',
-  PackageNameArgsSchema.shape,
-  async (args: PackageNameArgs): Promise<CallToolResult> => {
-    try {
-      const encodedPackageName = encodePackageName(args.packageName);
-      const rawData = await fetchPackageData(encodedPackageName);
-      const sourceUrl = `${NPM_REGISTRY_BASE_URL}/${encodedPackageName}`;
-      const resultData = transformDataForVersions(rawData, sourceUrl);
-      return { content: [{ type: 'text', text: JSON.stringify(resultData) }] };
-    } catch (error) {
-      console.error(
-        `Error in get_npm_package_versions: ${(error as Error).message}`
-      );
-      throw error;
+  // 27. Deprecated Dependencies Prompt
+  server.prompt(
+    'deprecated_dependencies_prompt',
+    'Generates a request to find deprecated packages in a project and what to replace them with.',
+    NpmAuditArgsSchema.shape,
+    async (args: NpmAuditArgs): Promise<GetPromptResult> => {
+      return {
+        description: `Generates a request to find deprecated dependencies of the project at '${args.projectPath}'.`,
+        messages: [
+          {
+            role: 'user',
+            content: {
+              type: 'text',
+              text: `Find the deprecated packages in the project at '${args.projectPath}', explain which dependency brings each one in, and suggest what to upgrade or replace them with.`
+            }
+          }
+        ]
+      };
     }
-  }
-);
+  );
 
-server.tool(
-  'get_npm_package_downloads',
-  'Provides download statistics for specified or all default periods.',
-  PackageDownloadsArgsSchema.shape,
-  async (args: PackageDownloadsArgs): Promise<CallToolResult> => {
-    try {
-      const encodedPackageName = encodePackageName(args.packageName);
-      const resultData = await fetchPackageDownloads(
-        encodedPackageName,
-        args.period
-      );
-      return { content: [{ type: 'text', text: JSON.stringify(resultData) }] };
-    } catch (error) {
-      console.error(
-        `Error in get_npm_package_downloads: ${(error as Error).message}`
-      );
-      throw error;
+  // 28. Bundle Size Prompt
+  server.prompt(
+    'bundle_size_prompt',
+    'Generates a request to estimate how much an npm package would add to a frontend bundle.',
+    PackageNameArgsSchema.shape,
+    async (args: PackageNameArgs): Promise<GetPromptResult> => {
+      return {
+        description: `Generates a request to estimate the bundle size impact of '${args.packageName}'.`,
+        messages: [
+          {
+            role: 'user',
+            content: {
+              type: 'text',
+              text: `How much would the npm package '${args.packageName}' add to our frontend bundle? Show the raw and gzip size, which dependencies contribute most, and what the estimate does not account for.`
+            }
+          }
+        ]
+      };
     }
-  }
-);
+  );
 
-server.tool(
-  'get_npm_package_details',
-  'Offers a more comprehensive set of information, including maintainers, repository URL, homepage, and keywords.',
-  PackageNameArgsSchema.shape,
-  async (args: PackageNameArgs): Promise<CallToolResult> => {
-    try {
-      const encodedPackageName = encodePackageName(args.packageName);
-      const rawData = await fetchPackageData(encodedPackageName);
-      const sourceUrl = `${NPM_REGISTRY_BASE_URL}/${encodedPackageName}`;
-      const resultData = transformDataForDetails(rawData, sourceUrl);
-      return { content: [{ type: 'text', text: JSON.stringify(resultData) }] };
-    } catch (error) {
-      console.error(
-        `Error in get_npm_package_details: ${(error as Error).message}`
-      );
-      throw error;
+  // 29. Scope Inventory Prompt
+  server.prompt(
+    'scope_inventory_prompt',
+    'Generates a request to inventory every package published under an npm scope.',
+    ScopePromptArgsSchema.shape,
+    async (args: ScopePromptArgs): Promise<GetPromptResult> => {
+      return {
+        description: `Generates a request to inventory the packages published under '${args.scope}'.`,
+        messages: [
+          {
+            role: 'user',
+            content: {
+              type: 'text',
+              text: `List all packages published under the npm scope '${args.scope}' with their latest versions and publish dates, and point out any that have not been published in over a year.`
+            }
+          }
+        ]
+      };
     }
-  }
-);
+  );
+};
 
-server.tool(
-  'npm_audit',
-  'Performs an audit of packages in the specified project directory and returns a structured summary of vulnerabilities and metadata',
-  NpmAuditArgsSchema.shape,
-  async (args: NpmAuditArgs): Promise<CallToolResult> => {
-    try {
-      const projectPath = args.projectPath;
-      const lockfilePath = path.join(projectPath, 'package-lock.json');
-      if (!fs.existsSync(lockfilePath)) {
-        throw new Error(
-          `npm audit requires a package-lock.json file in the target directory '${projectPath}'. Please run 'npm install' or 'npm i --package-lock-only' in that directory first.`
+// --- Resource Implementations ---
+
+const registerResources = (server: Server): void => {
+  server.resource(
+    'npm_package_readme',
+    new ResourceTemplate(`${PACKAGE_RESOURCE_PREFIX}{name}/readme`, {
+      list: undefined
+    }),
+    {
+      description: 'README of the latest published version of a package',
+      mimeType: 'text/markdown'
+    },
+    async (uri, variables): Promise<ReadResourceResult> => {
+      const packageName = getResourceVariable(variables, 'name');
+      // Falls back to the tarball when the registry omits the README
+      const { readme } = await getPackageReadme(packageName, {
+        maxLength: Infinity
+      });
+      if (!readme) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Package '${packageName}' has no README in the registry or its tarball.`
         );
       }
-      const { execSync } = await import('child_process');
-      let auditRaw: string;
-      console.error(
-        `[${new Date().toISOString()}] Running npm audit in directory: ${projectPath}`
-      );
-      try {
-        auditRaw = execSync('npm audit --json', {
-          encoding: 'utf-8',
-          cwd: projectPath
-        });
-      } catch (err: any) {
-        if (err.stdout) {
-          auditRaw = err.stdout;
-        } else {
-          throw new Error(
-            `Failed to run 'npm audit --json' in ${projectPath}: ${
-              err.message || err
-            }`
-          );
-        }
-      }
-      let auditJson: any;
-      try {
-        auditJson = JSON.parse(auditRaw);
-      } catch (err) {
-        throw new Error(
-          `Failed to parse npm audit JSON output from ${projectPath}.`
-        );
-      }
-      const rawSeveritySummary = (auditJson.metadata?.vulnerabilities ||
-        {}) as NpmAuditSeveritySummary;
-      const summary: NpmAuditOverallSummary = {
-        totalVulnerabilities: Object.values(rawSeveritySummary).reduce(
-          (acc: number, count?: number) => acc + (count || 0),
-          0
-        ),
-        bySeverity: rawSeveritySummary
-      };
-      const vulnerabilities: NpmAuditVulnerabilityEntry[] = [];
-      if (auditJson.vulnerabilities) {
-        for (const [
-          pkgName,
-          vulnDetails
-        ] of Object.entries<RawAuditVulnerabilityValue>(
-          auditJson.vulnerabilities as Record<
-            string,
-            RawAuditVulnerabilityValue
-          >
-        )) {
-          vulnerabilities.push({
-            package: pkgName,
-            version: vulnDetails.installed || vulnDetails.version || '',
-            severity: vulnDetails.severity || 'unknown',
-            advisoryUrl: vulnDetails.url || undefined
-          });
-        }
-      }
-      const resultData: McpNpmAuditResult = {
-        auditRunDate:
-          auditJson.metadata?.auditReportCreatedAt || new Date().toISOString(),
-        npmVersion: auditJson.metadata?.npmVersion || '',
-        nodeVersion: auditJson.metadata?.nodeVersion || '',
-        summary,
-        vulnerabilities,
-        rawAuditReport: auditJson
+      return {
+        contents: [{ uri: uri.href, mimeType: 'text/markdown', text: readme }]
       };
-      return { content: [{ type: 'text', text: JSON.stringify(resultData) }] };
-    } catch (error) {
-      console.error(`Error in npm_audit: ${(error as Error).message}`);
-      throw error;
     }
-  }
-);
+  );
 
-server.tool(
-  'simulate_npm_audit_fix',
-  'Simulates `npm audit fix --dry-run` in the specified project directory and returns a structured summary of potential changes.',
-  SimulateNpmAuditFixArgsSchema.shape,
-  async (args: SimulateNpmAuditFixArgs): Promise<CallToolResult> => {
-    try {
-      const projectPath = args.projectPath;
-      const lockfilePath = path.join(projectPath, 'package-lock.json');
-      if (!fs.existsSync(lockfilePath)) {
-        throw new Error(
-          `npm audit fix requires a package-lock.json file in the target directory '${projectPath}'. Please run 'npm install' or 'npm i --package-lock-only' in that directory first.`
-        );
-      }
-      const { execSync } = await import('child_process');
-      let simulationRaw: string;
-      console.error(
-        `[${new Date().toISOString()}] Running npm audit fix --dry-run --json in directory: ${projectPath}`
+  server.resource(
+    'npm_package_version',
+    new ResourceTemplate(`${PACKAGE_RESOURCE_PREFIX}{name}/{version}`, {
+      list: undefined
+    }),
+    {
+      description:
+        'Manifest of a package version, dist-tag or semver range (same data as get_npm_package_version)',
+      mimeType: 'application/json'
+    },
+    async (uri, variables): Promise<ReadResourceResult> => {
+      const packageName = getResourceVariable(variables, 'name');
+      const { data: rawData, cacheStatus } = await fetchPackageData(
+        encodePackageName(packageName)
       );
+      return toJsonResource(
+        uri,
+        transformDataForVersionManifest(
+          rawData,
+          getResourceVariable(variables, 'version'),
+          getPackageSourceUrl(packageName),
+          cacheStatus
+        )
+      );
+    }
+  );
+
+  server.resource(
+    'npm_package',
+    new ResourceTemplate(`${PACKAGE_RESOURCE_PREFIX}{name}`, {
+      list: undefined
+    }),
+    {
+      description:
+        'Package metadata (same data as get_npm_package_details). Scoped names are percent-encoded, e.g. npm://package/%40types%2Fnode',
+      mimeType: 'application/json'
+    },
+    async (uri, variables): Promise<ReadResourceResult> => {
+      const packageName = getResourceVariable(variables, 'name');
+      const { data: rawData, cacheStatus } = await fetchPackageData(
+        encodePackageName(packageName)
+      );
+      return toJsonResource(
+        uri,
+        transformDataForDetails(
+          rawData,
+          getPackageSourceUrl(packageName),
+          cacheStatus
+        )
+      );
+    }
+  );
+
+  server.resource(
+    'project_audit',
+    new ResourceTemplate(`${PROJECT_RESOURCE_PREFIX}{path}/audit`, {
+      list: async () => ({
+        resources: getResourceProjectDirs().map(projectPath => ({
+          uri: toProjectAuditResourceUri(projectPath),
+          name: `${
+            readProjectManifest(projectPath)?.name || path.basename(projectPath)
+          } audit`
+        }))
+      })
+    }),
+    {
+      description:
+        'Security advisories for every registry package in a project lockfile (same data as audit_packages). The path is percent-encoded.',
+      mimeType: 'application/json'
+    },
+    async (uri, variables): Promise<ReadResourceResult> => {
+      const projectPath = getResourceVariable(variables, 'path');
+      return toJsonResource(uri, await auditProjectDependencies(projectPath));
+    }
+  );
+
+  // McpServer does not handle subscriptions itself; poll subscribed resources
+  // and notify the client when they change.
+  const subscriptions = new Map<string, string>();
+  let pollTimer: NodeJS.Timeout | undefined;
+
+  const pollSubscriptions = async () => {
+    for (const [uri, fingerprint] of Array.from(subscriptions.entries())) {
       try {
-        simulationRaw = execSync('npm audit fix --dry-run --json', {
-          encoding: 'utf-8',
-          cwd: projectPath,
-          stdio: ['pipe', 'pipe', 'pipe']
-        });
-      } catch (err: any) {
-        if (err.stdout) {
-          simulationRaw = err.stdout;
-          console.error(
-            `[${new Date().toISOString()}] npm audit fix --dry-run exited non-zero but produced output in ${projectPath}. Stderr: ${
-              err.stderr || '(no stderr)'
-            }`
-          );
-        } else {
-          throw new Error(
-            `Failed to run 'npm audit fix --dry-run --json' in ${projectPath}: ${
-              err.message || err
-            }. Stderr: ${err.stderr || '(no stderr)'}`
-          );
-        }
-      }
-      let simulationJson: any;
-      try {
-        const jsonStartIndex = simulationRaw.indexOf('{');
-        if (jsonStartIndex === -1) {
-          throw new Error(
-            `Could not find start of JSON object in npm audit fix --dry-run output from ${projectPath}. Raw output: ${simulationRaw}`
-          );
+        const current = await getResourceFingerprint(uri);
+        if (subscriptions.has(uri) && current !== fingerprint) {
+          subscriptions.set(uri, current);
+          await server.server.sendResourceUpdated({ uri });
         }
-        const jsonString = simulationRaw.substring(jsonStartIndex);
-        simulationJson = JSON.parse(jsonString);
-      } catch (err) {
-        throw new Error(
-          `Failed to parse npm audit fix --dry-run JSON output from ${projectPath}. Error: ${
-            (err as Error).message
-          }. Raw output fragment: ${simulationRaw.substring(0, 500)}...`
-        );
-      }
-      let actions: NpmAuditFixAction[] = [];
-      if (simulationJson.actions && Array.isArray(simulationJson.actions)) {
-        actions = simulationJson.actions.map((action: any) => {
-          const actionType =
-            typeof action.action === 'string'
-              ? action.action.toLowerCase()
-              : 'unknown';
-          const name =
-            typeof action.module === 'string'
-              ? action.module
-              : typeof action.name === 'string'
-              ? action.name
-              : 'unknown';
-          const version =
-            typeof action.target === 'string' ? action.target : undefined;
-          let oldVersion: string | undefined;
-          if (
-            action.resolves &&
-            Array.isArray(action.resolves) &&
-            action.resolves.length > 0 &&
-            action.resolves[0]
-          ) {
-            oldVersion =
-              typeof action.resolves[0].from === 'string'
-                ? action.resolves[0].from
-                : undefined;
-          }
-          const isMajor =
-            typeof action.isMajor === 'boolean' ? action.isMajor : undefined;
-          let path: string | undefined;
-          if (
-            action.resolves &&
-            Array.isArray(action.resolves) &&
-            action.resolves.length > 0 &&
-            action.resolves[0]
-          ) {
-            path =
-              typeof action.resolves[0].path === 'string'
-                ? action.resolves[0].path
-                : undefined;
-          }
-          return {
-            action: actionType as NpmAuditFixAction['action'],
-            name,
-            version,
-            oldVersion,
-            isMajor,
-            path
-          };
-        });
+      } catch (error) {
+        console.error(
+          `[${new Date().toISOString()}] Failed to check subscribed resource ${uri}: ${
+            (error as Error).message
+          }`
+        );
       }
-      const summary: NpmAuditFixSummary = {
-        added: simulationJson.added || 0,
-        removed: simulationJson.removed || 0,
-        changed: simulationJson.changed || 0,
-        audited: simulationJson.audited || 0,
-        funding: simulationJson.funding || 0
-      };
-      const resultData: McpSimulateAuditFixResult = {
-        simulationRunDate: new Date().toISOString(),
-        npmVersion: simulationJson.metadata?.npmVersion || '',
-        nodeVersion: simulationJson.metadata?.nodeVersion || '',
-        summary,
-        actions,
-        rawSimulationOutput: simulationJson
-      };
-      return { content: [{ type: 'text', text: JSON.stringify(resultData) }] };
-    } catch (error) {
-      console.error(
-        `Error in simulate_npm_audit_fix: ${(error as Error).message}`
+    }
+  };
+
+  server.server.setRequestHandler(SubscribeRequestSchema, async request => {
+    const { uri } = request.params;
+    if (
+      !uri.startsWith(PACKAGE_RESOURCE_PREFIX) &&
+      !uri.startsWith(PROJECT_RESOURCE_PREFIX)
+    ) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Resource ${uri} does not support subscriptions.`
       );
-      throw error;
     }
-  }
-);
+    subscriptions.set(uri, await getResourceFingerprint(uri));
+    if (!pollTimer) {
+      pollTimer = setInterval(() => {
+        void pollSubscriptions();
+      }, RESOURCE_POLL_INTERVAL_MS);
+      pollTimer.unref();
+    }
+    return {};
+  });
 
-// --- Prompt Implementations ---
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async request => {
+    subscriptions.delete(request.params.uri);
+    if (subscriptions.size === 0 && pollTimer) {
+      clearInterval(pollTimer);
+      pollTimer = undefined;
+    }
+    return {};
+  });
 
-// 1. Get Summary Prompt
-server.prompt(
-  'get_summary_prompt',
-  'Generates a request to get a quick summary of a specified npm package.',
-  PackageNameArgsSchema.shape,
-  async (args: PackageNameArgs): Promise<GetPromptResult> => {
-    return {
-      description: `Generates a request to get a quick summary of the '${args.packageName}' npm package.`,
-      messages: [
-        {
-          role: 'user',
-          content: {
-            type: 'text',
-            text: `Get a quick summary of the '${args.packageName}' npm package.`
-          }
-        }
-      ]
-    };
-  }
-);
+  server.server.onclose = () => {
+    subscriptions.clear();
+    if (pollTimer) {
+      clearInterval(pollTimer);
+      pollTimer = undefined;
+    }
+  };
+};
 
-// 2. Get Details Prompt
-server.prompt(
-  'get_details_prompt',
-  'Generates a request for full details of a specified npm package, including maintainers and repository URL.',
-  PackageNameArgsSchema.shape,
-  async (args: PackageNameArgs): Promise<GetPromptResult> => {
-    return {
-      description: `Generates a request for full details of the '${args.packageName}' package.`,
-      messages: [
-        {
-          role: 'user',
-          content: {
-            type: 'text',
-            text: `Show me the full details for '${args.packageName}', including its repository URL and maintainers.`
-          }
-        }
-      ]
-    };
+const createServer = (): Server => {
+  const server = new Server(
+    {
+      name: 'npmjs-mcp-server',
+      version: '1.1.5' // Refactored to use server.tool() and server.prompt()
+    },
+    {
+      capabilities: {
+        // Tools and Prompts will be defined using server.tool() and server.prompt()
+        resources: { subscribe: true },
+        tools: {},
+        prompts: {}
+      }
+    }
+  );
+  registerTools(server);
+  registerPrompts(server);
+  registerResources(server);
+  return server;
+};
+
+// --- Transports ---
+
+interface TransportOptions {
+  mode: 'stdio' | 'http';
+  host: string;
+  port: number;
+  authToken?: string;
+}
+
+const getCommandLineOption = (name: string): string | undefined => {
+  const args = process.argv.slice(2);
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === `--${name}`) {
+      return args[i + 1];
+    }
+    if (args[i].startsWith(`--${name}=`)) {
+      return args[i].substring(name.length + 3);
+    }
   }
-);
+  return undefined;
+};
 
-// 3. Find Homepage Prompt
-server.prompt(
-  'find_homepage_prompt',
-  'Generates a request to find the official homepage for a specified npm package.',
-  PackageNameArgsSchema.shape,
-  async (args: PackageNameArgs): Promise<GetPromptResult> => {
-    return {
-      description: `Generates a request to find the official homepage for the '${args.packageName}' package.`,
-      messages: [
-        {
-          role: 'user',
-          content: {
-            type: 'text',
-            text: `What is the official homepage for the '${args.packageName}' package?`
-          }
-        }
-      ]
-    };
+const loadTransportOptions = (): TransportOptions => {
+  const mode =
+    getCommandLineOption('transport') ||
+    process.env.NPMJS_MCP_TRANSPORT ||
+    'stdio';
+  if (mode !== 'stdio' && mode !== 'http') {
+    throw new Error(`Unknown transport '${mode}'. Expected 'stdio' or 'http'.`);
   }
-);
+  const port = Number(
+    getCommandLineOption('port') || process.env.NPMJS_MCP_PORT || 3000
+  );
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid port '${port}'.`);
+  }
+  return {
+    mode,
+    host:
+      getCommandLineOption('host') || process.env.NPMJS_MCP_HOST || '127.0.0.1',
+    port,
+    // Only read from the environment so the token never shows up in process listings
+    authToken: process.env.NPMJS_MCP_AUTH_TOKEN || undefined
+  };
+};
 
-// 4. List Versions Prompt
-server.prompt(
-  'list_versions_prompt',
-  'Generates a request to list all available versions and their publish dates for a specified npm package.',
-  PackageNameArgsSchema.shape,
-  async (args: PackageNameArgs): Promise<GetPromptResult> => {
-    return {
-      description: `Generates a request to list versions for the '${args.packageName}' package.`,
-      messages: [
-        {
-          role: 'user',
-          content: {
-            type: 'text',
-            text: `List all available versions of '${args.packageName}' and their publish dates.`
-          }
-        }
-      ]
-    };
+const MAX_REQUEST_BODY_BYTES = 4 * 1024 * 1024;
+// 0 keeps sessions open until the client closes them
+const SESSION_IDLE_TIMEOUT_MS =
+  readNumberEnv('NPMJS_MCP_SESSION_IDLE_MINUTES', 30) * 60 * 1000;
+const SESSION_REAP_INTERVAL_MS = 60 * 1000;
+
+// The client's fault, so reported back as a 400; anything else is a 500
+class RequestBodyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RequestBodyError';
   }
-);
+}
 
-// 5. Get Version Date Prompt
-server.prompt(
-  'get_version_date_prompt',
-  'Generates a request to find the publish date for a specific version of a specified npm package.',
-  GetVersionDateArgsSchema.shape,
-  async (args: GetVersionDateArgs): Promise<GetPromptResult> => {
-    return {
-      description: `Generates a request for the publish date of version ${args.version} of '${args.packageName}'.`,
-      messages: [
-        {
-          role: 'user',
-          content: {
-            type: 'text',
-            text: `What was the publish date of version ${args.version} for '${args.packageName}'?`
-          }
-        }
-      ]
-    };
+const readJsonBody = (req: http.IncomingMessage): Promise<unknown> => {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_REQUEST_BODY_BYTES) {
+        reject(new RequestBodyError('Request body too large.'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf-8')));
+      } catch {
+        reject(new RequestBodyError('Request body is not valid JSON.'));
+      }
+    });
+    req.on('error', reject);
+  });
+};
+
+const sendJson = (
+  res: http.ServerResponse,
+  statusCode: number,
+  body: unknown
+): void => {
+  res.writeHead(statusCode, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const sendJsonRpcError = (
+  res: http.ServerResponse,
+  statusCode: number,
+  message: string
+): void => {
+  sendJson(res, statusCode, {
+    jsonrpc: '2.0',
+    error: { code: -32000, message },
+    id: null
+  });
+};
+
+const isAuthorizedRequest = (
+  req: http.IncomingMessage,
+  authToken: string
+): boolean => {
+  const provided = Buffer.from(req.headers.authorization || '');
+  const expected = Buffer.from(`Bearer ${authToken}`);
+  return (
+    provided.length === expected.length &&
+    crypto.timingSafeEqual(provided, expected)
+  );
+};
+
+const LOOPBACK_HOSTNAMES = ['localhost', '127.0.0.1', '::1'];
+
+const getHeaderHostname = (value: string): string | undefined => {
+  try {
+    return new URL(value.includes('://') ? value : `http://${value}`).hostname
+      .replace(/^\[|\]$/g, '')
+      .toLowerCase();
+  } catch {
+    return undefined;
   }
-);
+};
 
-// 6. Get Downloads Prompt
-server.prompt(
-  'get_downloads_prompt',
-  'Generates a request for the download count of a specified npm package over a specific time period.',
-  GetDownloadsArgsSchema.shape,
-  async (args: GetDownloadsArgs): Promise<GetPromptResult> => {
-    return {
-      description: `Generates a request for the download count of '${args.packageName}' in the ${args.timePeriod}.`,
-      messages: [
-        {
-          role: 'user',
-          content: {
-            type: 'text',
-            text: `How many times was '${args.packageName}' downloaded in the ${args.timePeriod}?`
-          }
-        }
-      ]
-    };
+/**
+ * Without a token the only protection is that the caller can reach the port,
+ * which a DNS-rebinding page in a local browser can. Such requests carry the
+ * attacker's domain in Host/Origin, so only IP literals, loopback names and
+ * the bound host are accepted.
+ */
+const isAllowedHostHeader = (
+  value: string | undefined,
+  boundHost: string
+): boolean => {
+  const hostname = value ? getHeaderHostname(value) : undefined;
+  if (!hostname) {
+    return false;
   }
-);
+  return (
+    net.isIP(hostname) !== 0 ||
+    LOOPBACK_HOSTNAMES.includes(hostname) ||
+    hostname === boundHost.toLowerCase()
+  );
+};
 
-// 7. Get All Downloads Prompt
-server.prompt(
-  'get_all_downloads_prompt',
-  'Generates a request for the download counts of a specified npm package for the last day, week, and month.',
-  PackageNameArgsSchema.shape,
-  async (args: PackageNameArgs): Promise<GetPromptResult> => {
-    return {
-      description: `Generates a request for all default download counts for '${args.packageName}'.`,
-      messages: [
-        {
-          role: 'user',
-          content: {
-            type: 'text',
-            text: `Get the download counts for '${args.packageName}' for the last day, week, and month.`
-          }
-        }
-      ]
-    };
+const isAllowedOrigin = (
+  req: http.IncomingMessage,
+  boundHost: string
+): boolean => {
+  if (!isAllowedHostHeader(req.headers.host, boundHost)) {
+    return false;
   }
-);
+  const origin = req.headers.origin;
+  // Non-browser clients don't send Origin; browsers always do for these requests
+  return origin === undefined || isAllowedHostHeader(origin, boundHost);
+};
 
-// 8. Audit Project Prompt
-server.prompt(
-  'audit_project_prompt',
-  'Generates a request to audit the dependencies in a specified project directory for security vulnerabilities.',
-  NpmAuditArgsSchema.shape,
-  async (args: NpmAuditArgs): Promise<GetPromptResult> => {
-    return {
-      description: `Generates a request to audit dependencies in '${args.projectPath}'.`,
-      messages: [
-        {
-          role: 'user',
-          content: {
-            type: 'text',
-            text: `Audit the dependencies in the project at '${args.projectPath}' for security vulnerabilities.`
-          }
-        }
-      ]
+/**
+ * Serves MCP over Streamable HTTP on /mcp and the legacy SSE transport on
+ * /sse + /messages. Every session gets its own server instance; they all share
+ * the module-level response cache.
+ */
+const startHttpServer = async (options: TransportOptions): Promise<void> => {
+  const streamableTransports = new Map<string, StreamableHTTPServerTransport>();
+  const sseTransports = new Map<string, SSEServerTransport>();
+  const lastActivity = new Map<string, number>();
+  const touchSession = (sessionId: string) => {
+    lastActivity.set(sessionId, Date.now());
+  };
+
+  const handleStreamableRequest = async (
+    req: http.IncomingMessage,
+    res: http.ServerResponse
+  ) => {
+    const sessionIdHeader = req.headers['mcp-session-id'];
+    const sessionId = Array.isArray(sessionIdHeader)
+      ? sessionIdHeader[0]
+      : sessionIdHeader;
+    const body = req.method === 'POST' ? await readJsonBody(req) : undefined;
+    if (sessionId) {
+      const transport = streamableTransports.get(sessionId);
+      if (!transport) {
+        sendJsonRpcError(res, 404, `Session '${sessionId}' not found.`);
+        return;
+      }
+      touchSession(sessionId);
+      await transport.handleRequest(req, res, body);
+      return;
+    }
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      sendJsonRpcError(
+        res,
+        400,
+        'Bad Request: no session ID provided and the request is not an initialize request.'
+      );
+      return;
+    }
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => crypto.randomUUID(),
+      onsessioninitialized: newSessionId => {
+        streamableTransports.set(newSessionId, transport);
+        touchSession(newSessionId);
+      }
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        streamableTransports.delete(transport.sessionId);
+        lastActivity.delete(transport.sessionId);
+      }
     };
+    await createServer().connect(transport);
+    await transport.handleRequest(req, res, body);
+  };
+
+  const handleSseConnection = async (res: http.ServerResponse) => {
+    const transport = new SSEServerTransport('/messages', res);
+    sseTransports.set(transport.sessionId, transport);
+    touchSession(transport.sessionId);
+    res.on('close', () => {
+      sseTransports.delete(transport.sessionId);
+      lastActivity.delete(transport.sessionId);
+    });
+    await createServer().connect(transport);
+  };
+
+  const handleSseMessage = async (
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    url: URL
+  ) => {
+    const sessionId = url.searchParams.get('sessionId') || '';
+    const transport = sseTransports.get(sessionId);
+    if (!transport) {
+      sendJsonRpcError(res, 404, `Session '${sessionId}' not found.`);
+      return;
+    }
+    touchSession(sessionId);
+    await transport.handlePostMessage(req, res);
+  };
+
+  const reapIdleSessions = () => {
+    const cutoff = Date.now() - SESSION_IDLE_TIMEOUT_MS;
+    const idle: Array<[string, { close(): Promise<void> }]> = [
+      ...streamableTransports.entries(),
+      ...sseTransports.entries()
+    ].filter(([sessionId]) => (lastActivity.get(sessionId) ?? 0) < cutoff);
+    for (const [sessionId, transport] of idle) {
+      console.error(
+        `[${new Date().toISOString()}] Closing session ${sessionId} after ${
+          SESSION_IDLE_TIMEOUT_MS / 60000
+        } idle minutes.`
+      );
+      streamableTransports.delete(sessionId);
+      sseTransports.delete(sessionId);
+      lastActivity.delete(sessionId);
+      transport.close().catch(error => {
+        console.error(
+          `[${new Date().toISOString()}] Error closing session ${sessionId}: ${
+            (error as Error).message
+          }`
+        );
+      });
+    }
+  };
+  if (SESSION_IDLE_TIMEOUT_MS > 0) {
+    setInterval(
+      reapIdleSessions,
+      Math.min(SESSION_REAP_INTERVAL_MS, SESSION_IDLE_TIMEOUT_MS)
+    ).unref();
   }
-);
 
-// 9. Simulate Audit Fix Prompt
-server.prompt(
-  'simulate_audit_fix_prompt',
-  'Generates a request to simulate running `npm audit fix` on a specified project directory.',
-  SimulateNpmAuditFixArgsSchema.shape,
-  async (args: SimulateNpmAuditFixArgs): Promise<GetPromptResult> => {
-    return {
-      description: `Generates a request to simulate 'npm audit fix' in '${args.projectPath}'.`,
-      messages: [
-        {
-          role: 'user',
-          content: {
-            type: 'text',
-            text: `Simulate running 'npm audit fix' on the project at '${args.projectPath}' and show me what would change.`
-          }
+  const httpServer = http.createServer(async (req, res) => {
+    try {
+      const url = new URL(
+        req.url || '/',
+        `http://${req.headers.host || 'localhost'}`
+      );
+      if (url.pathname === '/health' && req.method === 'GET') {
+        sendJson(res, 200, {
+          status: 'ok',
+          sessions: streamableTransports.size + sseTransports.size
+        });
+        return;
+      }
+      if (options.authToken && !isAuthorizedRequest(req, options.authToken)) {
+        res.setHeader('WWW-Authenticate', 'Bearer');
+        sendJsonRpcError(res, 401, 'Unauthorized.');
+        return;
+      }
+      if (!options.authToken && !isAllowedOrigin(req, options.host)) {
+        sendJsonRpcError(res, 403, 'Forbidden: Host or Origin not allowed.');
+        return;
+      }
+      if (url.pathname === '/mcp') {
+        await handleStreamableRequest(req, res);
+      } else if (url.pathname === '/sse' && req.method === 'GET') {
+        await handleSseConnection(res);
+      } else if (url.pathname === '/messages' && req.method === 'POST') {
+        await handleSseMessage(req, res, url);
+      } else {
+        sendJson(res, 404, { error: 'Not found' });
+      }
+    } catch (error) {
+      console.error(
+        `[${new Date().toISOString()}] Error handling ${req.method} ${
+          req.url
+        }: ${(error as Error).message}`
+      );
+      if (!res.headersSent) {
+        if (error instanceof RequestBodyError) {
+          sendJsonRpcError(res, 400, error.message);
+        } else {
+          sendJsonRpcError(res, 500, 'Internal server error.');
         }
-      ]
-    };
+      }
+    }
+  });
+
+  const shutdown = async (signal: string) => {
+    console.error(
+      `[${new Date().toISOString()}] Received ${signal}, shutting down HTTP server...`
+    );
+    // Long-lived SSE streams would otherwise keep close() waiting forever
+    setTimeout(() => process.exit(0), 5000).unref();
+    httpServer.close();
+    await Promise.allSettled([
+      ...Array.from(streamableTransports.values()).map(transport =>
+        transport.close()
+      ),
+      ...Array.from(sseTransports.values()).map(transport => transport.close())
+    ]);
+    process.exit(0);
+  };
+  process.once('SIGINT', () => void shutdown('SIGINT'));
+  process.once('SIGTERM', () => void shutdown('SIGTERM'));
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => resolve());
+  });
+  if (
+    !options.authToken &&
+    !['127.0.0.1', 'localhost', '::1'].includes(options.host)
+  ) {
+    console.error(
+      `[${new Date().toISOString()}] Warning: listening on ${
+        options.host
+      } without NPMJS_MCP_AUTH_TOKEN set; anyone who can reach this port can use the server.`
+    );
   }
-);
+  console.error(
+    `[${new Date().toISOString()}] NPMJS MCP Server listening on http://${
+      options.host
+    }:${options.port} (Streamable HTTP: /mcp, SSE: /sse, health: /health).`
+  );
+};
 
 async function main() {
   console.error(`[${new Date().toISOString()}] Starting NPMJS MCP Server...`);
+  const transportOptions = loadTransportOptions();
+  if (transportOptions.mode === 'http') {
+    await startHttpServer(transportOptions);
+    return;
+  }
+  const server = createServer();
   const transport = new StdioServerTransport();
   await server.connect(transport);
   console.error(